@@ -1,8 +1,44 @@
 import { McpAgent } from "agents/mcp";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
-import { GoogleService } from "./GoogleService.ts";
+import {
+  BULK_MAX_MESSAGES,
+  DEFAULT_ATTACHMENT_MAX_BYTES,
+  GoogleApiError,
+  GoogleService,
+} from "./GoogleService.ts";
 import { GoogleAuthContext } from "../types";
+import { OAuthHttpError, refreshAccessToken } from "./lib/google-auth";
+import { getRefreshToken } from "./lib/kv-helpers";
+import { hasOffset } from "./lib/time-zones";
+
+// A draft queued for sending by the Durable Object alarm
+type ScheduledSend = {
+  id: string;
+  draftId: string;
+  draftMessageId: string; // changes if the draft is edited after scheduling
+  subject: string;
+  sendAt: string;
+  status: "pending" | "sent" | "failed" | "cancelled";
+  attempts?: number;
+  nextAttemptAt?: string; // set while a transient failure is being retried
+  error?: string;
+  sentMessageId?: string;
+  finishedAt?: string;
+};
+
+const SCHEDULED_SEND_PREFIX = "scheduled-send:";
+const REFRESH_TOKEN_KEY = "google-refresh-token";
+
+// Transient Google errors are retried with backoff, this many times in all
+const SCHEDULED_SEND_MAX_ATTEMPTS = 5;
+
+const isTransient = (e: unknown) =>
+  (e instanceof GoogleApiError || e instanceof OAuthHttpError) &&
+  (e.status === 429 || e.status >= 500);
+
+const dueAt = (send: ScheduledSend) =>
+  Date.parse(send.nextAttemptAt ?? send.sendAt);
 
 export class GoogleMCP extends McpAgent<Env, unknown, GoogleAuthContext> {
   async init() {}
@@ -11,6 +47,99 @@ export class GoogleMCP extends McpAgent<Env, unknown, GoogleAuthContext> {
     return new GoogleService(this.env, this.props.accessToken);
   }
 
+  private async scheduledSends() {
+    const entries = await this.ctx.storage.list<ScheduledSend>({
+      prefix: SCHEDULED_SEND_PREFIX,
+    });
+    return [...entries.values()].sort((a, b) =>
+      a.sendAt.localeCompare(b.sendAt)
+    );
+  }
+
+  private putScheduledSend(send: ScheduledSend) {
+    return this.ctx.storage.put(`${SCHEDULED_SEND_PREFIX}${send.id}`, send);
+  }
+
+  // One alarm per object, so it always points at the earliest pending attempt.
+  // The refresh token is only kept while some send still needs it.
+  private async armAlarm() {
+    const pending = (await this.scheduledSends()).filter(
+      (s) => s.status === "pending"
+    );
+    if (pending.length) {
+      await this.ctx.storage.setAlarm(Math.min(...pending.map(dueAt)));
+    } else {
+      await this.ctx.storage.deleteAlarm();
+      await this.ctx.storage.delete(REFRESH_TOKEN_KEY);
+    }
+  }
+
+  // A fresh access token from the refresh token kept at scheduling time;
+  // without one, the session's token (scheduleSend checked it lasts)
+  private async scheduledSendToken() {
+    const refreshToken = await this.ctx.storage.get<string>(REFRESH_TOKEN_KEY);
+    if (refreshToken) {
+      const result = await refreshAccessToken(
+        refreshToken,
+        this.env.GOOGLE_CLIENT_ID,
+        this.env.GOOGLE_CLIENT_SECRET
+      );
+      return result.access_token;
+    }
+    // the alarm can fire with no session attached, so use the stored props
+    const props =
+      this.props ?? (await this.ctx.storage.get<GoogleAuthContext>("props"));
+    return props?.accessToken ?? "";
+  }
+
+  // Sends every due draft unless it was edited or deleted since scheduling
+  async alarm() {
+    const now = Date.now();
+    const due = (await this.scheduledSends()).filter(
+      (s) => s.status === "pending" && dueAt(s) <= now
+    );
+    let accessToken: string | undefined;
+    for (const send of due) {
+      send.attempts = (send.attempts ?? 0) + 1;
+      try {
+        accessToken ??= await this.scheduledSendToken();
+        const google = new GoogleService(this.env, accessToken);
+        const draft = await google.getDraft(send.draftId);
+        if (draft.message.id !== send.draftMessageId)
+          throw new Error(
+            "Draft was edited after scheduling; schedule it again to send the new version"
+          );
+        const sent = await google.sendEmail(send.draftId);
+        send.status = "sent";
+        send.sentMessageId = sent.id;
+        send.nextAttemptAt = undefined;
+      } catch (e) {
+        send.error =
+          e instanceof GoogleApiError && e.status === 404
+            ? "Draft was deleted (or already sent) before the send time"
+            : e instanceof GoogleApiError && e.status === 401
+              ? "Google rejected the access token at send time; reconnect and schedule again"
+              : e instanceof OAuthHttpError && e.status === 400
+                ? "Google refresh token was revoked; reconnect and schedule again"
+                : e instanceof Error
+                  ? e.message
+                  : String(e);
+        if (isTransient(e) && send.attempts < SCHEDULED_SEND_MAX_ATTEMPTS) {
+          // 1, 2, 4, 8 minutes
+          const delay = 60000 * 2 ** (send.attempts - 1);
+          send.nextAttemptAt = new Date(now + delay).toISOString();
+          await this.putScheduledSend(send);
+          continue;
+        }
+        send.status = "failed";
+        send.nextAttemptAt = undefined;
+      }
+      send.finishedAt = new Date().toISOString();
+      await this.putScheduledSend(send);
+    }
+    await this.armAlarm();
+  }
+
   formatResponse = (data: unknown) => ({
     content: [
       {
@@ -34,22 +163,126 @@ export class GoogleMCP extends McpAgent<Env, unknown, GoogleAuthContext> {
     );
 
     // Calendar tools
+    const calendarIdSchema = z
+      .string()
+      .optional()
+      .default("primary")
+      .describe("Calendar ID from listCalendars (defaults to primary)");
+    const timeZoneSchema = z
+      .string()
+      .optional()
+      .describe(
+        "IANA time zone, e.g. Europe/Berlin; returned times are expressed in it"
+      );
+    const remindersSchema = z
+      .array(
+        z.object({
+          method: z.enum(["popup", "email"]),
+          minutes: z.number().int().min(0).max(40320),
+        })
+      )
+      .max(5)
+      .optional()
+      .describe(
+        "Reminder overrides; takes precedence over reminderMinutesBeforeStart"
+      );
+    const recurrenceSchema = z
+      .array(z.string())
+      .optional()
+      .describe(
+        'RFC 5545 lines, e.g. ["RRULE:FREQ=WEEKLY;BYDAY=MO,WE;COUNT=10", "EXDATE;TZID=America/New_York:20250310T090000"]'
+      );
+    const scopeSchema = z
+      .enum(["instance", "following", "series"])
+      .optional()
+      .default("instance")
+      .describe(
+        'For recurring events: only this occurrence, this and following occurrences, or the whole series. A series ID (not an occurrence) needs "series"'
+      );
+
+    server.tool(
+      "listCalendars",
+      "List the calendars the user can see (own, shared and resource calendars)",
+      {
+        showHidden: z
+          .boolean()
+          .optional()
+          .default(false)
+          .describe("Include calendars hidden from the calendar list"),
+        minAccessRole: z
+          .enum(["freeBusyReader", "reader", "writer", "owner"])
+          .optional()
+          .describe("Only return calendars with at least this access role"),
+      },
+      async ({ showHidden, minAccessRole }) => {
+        const calendars = await this.googleService.listCalendars(
+          showHidden,
+          minAccessRole
+        );
+        return this.formatResponse(calendars);
+      }
+    );
+
+    server.tool(
+      "listEventColors",
+      "List the event color palette and which category names map to each color",
+      {},
+      async () => {
+        const colors = await this.googleService.listEventColors();
+        return this.formatResponse(colors);
+      }
+    );
+
     server.tool(
       "getUserCalendarEvents",
       "Get the user's calendar events",
       {
         startDate: z.string().describe("Start date in ISO 8601"),
         endDate: z.string().describe("End date in ISO 8601"),
+        calendarId: calendarIdSchema,
+        timeZone: timeZoneSchema,
+        expandRecurring: z
+          .boolean()
+          .optional()
+          .default(true)
+          .describe(
+            "Expand recurring events into occurrences; false returns series masters with their recurrence"
+          ),
       },
-      async ({ startDate, endDate }) => {
+      async ({ startDate, endDate, calendarId, timeZone, expandRecurring }) => {
         const events = await this.googleService.getUserCalendarEvents(
           startDate,
-          endDate
+          endDate,
+          calendarId,
+          timeZone,
+          expandRecurring
         );
         return this.formatResponse(events);
       }
     );
 
+    server.tool(
+      "listEventInstances",
+      "List the occurrences of a recurring calendar event",
+      {
+        eventId: z.string().describe("Recurring event (series) ID"),
+        startDate: z.string().optional().describe("Start date in ISO 8601"),
+        endDate: z.string().optional().describe("End date in ISO 8601"),
+        calendarId: calendarIdSchema,
+        timeZone: timeZoneSchema,
+      },
+      async ({ eventId, startDate, endDate, calendarId, timeZone }) => {
+        const instances = await this.googleService.listEventInstances(
+          eventId,
+          calendarId,
+          startDate,
+          endDate,
+          timeZone
+        );
+        return this.formatResponse(instances);
+      }
+    );
+
     server.tool(
       "createCalendarEvent",
       "Create a new calendar event for the user",
@@ -57,30 +290,33 @@ export class GoogleMCP extends McpAgent<Env, unknown, GoogleAuthContext> {
         subject: z.string().describe("The event summary/subject"),
         startDate: z.string().describe("Start date/time ISO 8601"),
         endDate: z.string().describe("End date/time ISO 8601"),
+        timeZone: timeZoneSchema,
         reminderMinutesBeforeStart: z
           .number()
           .default(15)
-          .describe("Reminder lead time (ignored for now)"),
+          .describe("Popup reminder lead time in minutes"),
+        reminders: remindersSchema,
         body: z.string().optional().describe("Plaintext description"),
         location: z.string().optional().describe("Location or meeting link"),
+        addGoogleMeet: z
+          .boolean()
+          .optional()
+          .describe("Create a Google Meet conference for the event"),
         isAllDay: z.boolean().optional().describe("All-day event flag"),
         categories: z
           .array(z.string())
           .optional()
-          .describe("Ignored by Google; kept for parity"),
+          .describe(
+            "Category names mapped to an event color; the first known one is applied (see listEventColors)"
+          ),
         attendees: z.array(z.string()).optional().describe("Attendee emails"),
+        recurrence: recurrenceSchema,
+        calendarId: calendarIdSchema,
       },
-      async (args) => {
+      async ({ calendarId, ...input }) => {
         const event = await this.googleService.createCalendarEvent(
-          args.subject,
-          args.startDate,
-          args.endDate,
-          args.reminderMinutesBeforeStart,
-          args.body,
-          args.location,
-          args.isAllDay,
-          args.categories,
-          args.attendees
+          input,
+          calendarId
         );
         return this.formatResponse(event);
       }
@@ -89,19 +325,35 @@ export class GoogleMCP extends McpAgent<Env, unknown, GoogleAuthContext> {
     server.tool(
       "deleteCalendarEvent",
       "Delete a calendar event for the user",
-      { eventId: z.string().describe("Event ID") },
-      async ({ eventId }) => {
-        await this.googleService.deleteCalendarEvent(eventId);
-        return this.formatResponse({ eventId });
+      {
+        eventId: z.string().describe("Event ID"),
+        calendarId: calendarIdSchema,
+        scope: scopeSchema,
+      },
+      async ({ eventId, calendarId, scope }) => {
+        await this.googleService.deleteCalendarEvent(
+          eventId,
+          calendarId,
+          scope
+        );
+        return this.formatResponse({ eventId, calendarId, scope });
       }
     );
 
     server.tool(
       "getCalendarEvent",
       "Get a calendar event",
-      { eventId: z.string().describe("Event ID") },
-      async ({ eventId }) => {
-        const event = await this.googleService.getCalendarEvent(eventId);
+      {
+        eventId: z.string().describe("Event ID"),
+        calendarId: calendarIdSchema,
+        timeZone: timeZoneSchema,
+      },
+      async ({ eventId, calendarId, timeZone }) => {
+        const event = await this.googleService.getCalendarEvent(
+          eventId,
+          calendarId,
+          timeZone
+        );
         return this.formatResponse(event);
       }
     );
@@ -114,38 +366,270 @@ export class GoogleMCP extends McpAgent<Env, unknown, GoogleAuthContext> {
         subject: z.string().optional(),
         startDate: z.string().optional(),
         endDate: z.string().optional(),
+        timeZone: timeZoneSchema,
         reminderMinutesBeforeStart: z.number().optional(),
+        reminders: remindersSchema,
         body: z.string().optional(),
         location: z.string().optional(),
+        addGoogleMeet: z
+          .boolean()
+          .optional()
+          .describe("true adds a Google Meet conference, false removes it"),
         isAllDay: z.boolean().optional(),
-        categories: z.array(z.string()).optional(),
+        categories: z
+          .array(z.string())
+          .optional()
+          .describe("Category names mapped to an event color; [] clears it"),
         attendees: z.array(z.string()).optional(),
+        recurrence: recurrenceSchema,
+        calendarId: calendarIdSchema,
+        scope: scopeSchema,
       },
-      async ({ eventId, ...rest }) => {
+      async ({ eventId, calendarId, scope, ...input }) => {
         const event = await this.googleService.updateCalendarEvent(
           eventId,
-          rest.subject,
-          rest.startDate,
-          rest.endDate,
-          rest.reminderMinutesBeforeStart,
-          rest.body,
-          rest.location,
-          rest.isAllDay,
-          rest.categories,
-          rest.attendees
+          input,
+          calendarId,
+          scope
         );
         return this.formatResponse(event);
       }
     );
 
+    server.tool(
+      "respondToEvent",
+      "Accept, decline or tentatively accept a calendar invitation",
+      {
+        eventId: z.string().describe("Event ID"),
+        response: z.enum(["accepted", "declined", "tentative"]),
+        comment: z
+          .string()
+          .optional()
+          .describe("Optional note to the organizer"),
+        sendUpdates: z
+          .enum(["all", "externalOnly", "none"])
+          .optional()
+          .default("all")
+          .describe("Who Google should notify about the response"),
+        calendarId: calendarIdSchema,
+      },
+      async ({ eventId, response, comment, sendUpdates, calendarId }) => {
+        const event = await this.googleService.respondToEvent(
+          eventId,
+          response,
+          comment,
+          sendUpdates,
+          calendarId
+        );
+        return this.formatResponse(event);
+      }
+    );
+
+    server.tool(
+      "exportCalendarIcs",
+      "Export one event, or all events in a date range, as RFC 5545 iCalendar (.ics) text",
+      {
+        eventId: z
+          .string()
+          .optional()
+          .describe("Export just this event (ignores the date range)"),
+        startDate: z.string().optional().describe("Start date in ISO 8601"),
+        endDate: z.string().optional().describe("End date in ISO 8601"),
+        calendarId: calendarIdSchema,
+      },
+      async ({ eventId, startDate, endDate, calendarId }) => {
+        const ics = await this.googleService.exportCalendarIcs(
+          calendarId,
+          startDate,
+          endDate,
+          eventId
+        );
+        return { content: [{ type: "text" as const, text: ics }] };
+      }
+    );
+
+    server.tool(
+      "importCalendarIcs",
+      "Create events from iCalendar (.ics) text and report which components were imported or skipped",
+      {
+        icsText: z.string().describe("iCalendar text (BEGIN:VCALENDAR...)"),
+        calendarId: calendarIdSchema,
+        timeZone: z
+          .string()
+          .optional()
+          .describe(
+            "IANA zone for floating times in the file (defaults to the calendar's zone)"
+          ),
+        sendUpdates: z
+          .enum(["all", "externalOnly", "none"])
+          .optional()
+          .default("none")
+          .describe("Whether to email invitations to imported attendees"),
+      },
+      async ({ icsText, calendarId, timeZone, sendUpdates }) => {
+        const result = await this.googleService.importCalendarIcs(
+          icsText,
+          calendarId,
+          timeZone,
+          sendUpdates
+        );
+        return this.formatResponse(result);
+      }
+    );
+
+    server.tool(
+      "findMeetingSlots",
+      "Find meeting times when the attendees are free, ranked by fewest conflicts. Slot start/end can be passed straight to createCalendarEvent.",
+      {
+        attendees: z
+          .array(z.string())
+          .max(49)
+          .describe("Attendee emails (or calendar IDs) to check"),
+        startDate: z.string().describe("Search window start ISO 8601"),
+        endDate: z.string().describe("Search window end ISO 8601"),
+        durationMinutes: z
+          .number()
+          .int()
+          .positive()
+          .describe("Meeting length in minutes"),
+        timeZone: z
+          .string()
+          .describe("IANA time zone for working hours, e.g. America/New_York"),
+        workingHoursStart: z
+          .string()
+          .regex(/^\d{2}:\d{2}$/)
+          .optional()
+          .default("09:00")
+          .describe("Start of the working day (HH:MM)"),
+        workingHoursEnd: z
+          .string()
+          .regex(/^\d{2}:\d{2}$/)
+          .optional()
+          .default("17:00")
+          .describe("End of the working day (HH:MM)"),
+        includeWeekends: z.boolean().optional().default(false),
+        includeSelf: z
+          .boolean()
+          .optional()
+          .default(true)
+          .describe("Also check the user's own primary calendar"),
+        slotIncrementMinutes: z
+          .number()
+          .int()
+          .positive()
+          .optional()
+          .default(30)
+          .describe("Spacing between candidate start times"),
+        maxResults: z.number().int().positive().optional().default(10),
+      },
+      async (args) => {
+        const slots = await this.googleService.findMeetingSlots(args);
+        return this.formatResponse(slots);
+      }
+    );
+
+    server.tool(
+      "startCalendarWatch",
+      "Create a Calendar push channel that notifies about created, changed and cancelled events (requires GOOGLE_CALENDAR_WEBHOOK_URL)",
+      {
+        serverName: z.string().describe("MCP server name to tag notifications"),
+        calendarId: calendarIdSchema,
+      },
+      async ({ serverName, calendarId }) => {
+        const channel = await this.googleService.startCalendarWatch(
+          serverName,
+          calendarId
+        );
+        return this.formatResponse({ serverName, calendarId, ...channel });
+      }
+    );
+
+    server.tool(
+      "syncCalendarChanges",
+      "Report events created, changed or cancelled since the last sync of this calendar. The first call (or a call after the sync token expires) only records a baseline.",
+      {
+        serverName: z
+          .string()
+          .describe("MCP server name the sync state is stored under"),
+        calendarId: calendarIdSchema,
+      },
+      async ({ serverName, calendarId }) => {
+        const changes = await this.googleService.syncCalendarChanges(
+          serverName,
+          calendarId
+        );
+        return this.formatResponse(changes);
+      }
+    );
+
     // Gmail tools
+    const htmlBodySchema = z
+      .string()
+      .optional()
+      .describe(
+        "HTML body; sent with a plaintext alternative (body, or text derived from the HTML)"
+      );
+    const contentIdSchema = z
+      .string()
+      .optional()
+      .describe(
+        "Sends the attachment inline so htmlBody can show it via cid:<contentId>"
+      );
+    const attachmentsSchema = z
+      .array(
+        z.union([
+          z.object({
+            filename: z.string(),
+            mimeType: z.string().optional(),
+            contentBase64: z.string().describe("File content, base64-encoded"),
+            contentId: contentIdSchema,
+          }),
+          z.object({
+            messageId: z
+              .string()
+              .describe("Message holding the attachment to copy"),
+            partId: z.string().optional(),
+            attachmentId: z.string().optional(),
+            filename: z
+              .string()
+              .optional()
+              .describe("Defaults to the original filename"),
+            mimeType: z.string().optional(),
+            contentId: contentIdSchema,
+          }),
+        ])
+      )
+      .optional()
+      .describe(
+        "Attachments as base64 content or references to existing message parts (partId from getEmail)"
+      );
+
+    const emailFormatSchema = (defaultFormat: "metadata" | "full") =>
+      z
+        .enum(["metadata", "summary", "full", "raw"])
+        .optional()
+        .default(defaultFormat)
+        .describe(
+          "metadata: sender, recipients, subject, date, labels and snippet (cheapest); summary: adds attachments; full: adds the decoded text body; raw: Gmail's message resource"
+        );
+
+    const folderSchema = z
+      .string()
+      .optional()
+      .default("inbox")
+      .describe(
+        "inbox, sentitems, drafts, archive, all, or any label name or ID from listLabels"
+      );
+    const labelNamesSchema = z
+      .array(z.string())
+      .optional()
+      .describe("Label names or IDs, e.g. UNREAD, STARRED or a user label");
+
     server.tool(
       "searchEmails",
-      "Search Gmail with optional filters and date range",
+      "Search Gmail with optional filters and date range. Returns one page of emails plus nextPageToken when more match; messages that failed to load are listed under errors.",
       {
-        folder: z
-          .enum(["inbox", "sentitems", "drafts", "archive"])
-          .default("inbox"),
+        folder: folderSchema,
         startDate: z.string().describe("Start ISO 8601"),
         endDate: z.string().describe("End ISO 8601"),
         fromAddress: z.string().optional(),
@@ -153,8 +637,21 @@ export class GoogleMCP extends McpAgent<Env, unknown, GoogleAuthContext> {
         conversationId: z
           .string()
           .optional()
-          .describe("Ignored for Gmail search; use threadId when needed"),
+          .describe("Only return messages from this thread (threadId)"),
         query: z.string().optional(),
+        format: emailFormatSchema("metadata"),
+        maxResults: z
+          .number()
+          .int()
+          .min(1)
+          .max(100)
+          .optional()
+          .default(50)
+          .describe("Emails per page"),
+        pageToken: z
+          .string()
+          .optional()
+          .describe("nextPageToken from a previous searchEmails call"),
       },
       async ({
         folder,
@@ -164,6 +661,9 @@ export class GoogleMCP extends McpAgent<Env, unknown, GoogleAuthContext> {
         toAddress,
         conversationId,
         query,
+        format,
+        maxResults,
+        pageToken,
       }) => {
         const emails = await this.googleService.searchEmails(
           folder,
@@ -172,7 +672,8 @@ export class GoogleMCP extends McpAgent<Env, unknown, GoogleAuthContext> {
           fromAddress,
           toAddress,
           conversationId,
-          query
+          query,
+          { format, maxResults, pageToken }
         );
         return this.formatResponse(emails);
       }
@@ -198,33 +699,442 @@ export class GoogleMCP extends McpAgent<Env, unknown, GoogleAuthContext> {
       }
     );
 
+    server.tool(
+      "modifyEmailLabels",
+      "Add or remove labels on a Gmail email",
+      {
+        emailId: z.string(),
+        addLabels: labelNamesSchema,
+        removeLabels: labelNamesSchema,
+      },
+      async ({ emailId, addLabels, removeLabels }) => {
+        const res = await this.googleService.modifyEmailLabels(
+          emailId,
+          addLabels,
+          removeLabels
+        );
+        return this.formatResponse(res);
+      }
+    );
+
+    server.tool(
+      "listLabels",
+      "List Gmail labels (system labels such as INBOX and UNREAD, and user labels)",
+      {},
+      async () => {
+        const labels = await this.googleService.listLabels();
+        return this.formatResponse(labels);
+      }
+    );
+
+    server.tool(
+      "createLabel",
+      "Create a Gmail label; use Parent/Child names for nesting",
+      {
+        name: z.string().min(1),
+        messageListVisibility: z.enum(["show", "hide"]).optional(),
+        labelListVisibility: z
+          .enum(["labelShow", "labelShowIfUnread", "labelHide"])
+          .optional(),
+      },
+      async ({ name, ...visibility }) => {
+        const label = await this.googleService.createLabel(name, visibility);
+        return this.formatResponse(label);
+      }
+    );
+
+    server.tool(
+      "renameLabel",
+      "Rename a Gmail user label (nested labels under it follow)",
+      {
+        label: z.string().describe("Current label name or ID"),
+        newName: z.string().min(1),
+      },
+      async ({ label, newName }) => {
+        const renamed = await this.googleService.renameLabel(label, newName);
+        return this.formatResponse(renamed);
+      }
+    );
+
+    server.tool(
+      "deleteLabel",
+      "Delete a Gmail user label; emails keep their other labels",
+      { label: z.string().describe("Label name or ID") },
+      async ({ label }) => {
+        const deleted = await this.googleService.deleteLabel(label);
+        return this.formatResponse(deleted);
+      }
+    );
+
+    const filterCriteriaSchema = z
+      .object({
+        from: z.string().optional(),
+        to: z.string().optional(),
+        subject: z.string().optional(),
+        query: z
+          .string()
+          .optional()
+          .describe("Gmail search terms the message must match"),
+        negatedQuery: z
+          .string()
+          .optional()
+          .describe("Gmail search terms the message must not match"),
+        hasAttachment: z.boolean().optional(),
+        excludeChats: z.boolean().optional(),
+        size: z.number().int().positive().optional().describe("Bytes"),
+        sizeComparison: z.enum(["larger", "smaller"]).optional(),
+      })
+      .describe("All given criteria must match");
+
+    server.tool(
+      "listFilters",
+      "List Gmail filters with their criteria (also as a search query) and actions",
+      {},
+      async () => {
+        const filters = await this.googleService.listFilters();
+        return this.formatResponse(filters);
+      }
+    );
+
+    server.tool(
+      "createFilter",
+      "Create a Gmail filter for incoming mail. Set dryRun to preview which recent emails the criteria match without creating it.",
+      {
+        criteria: filterCriteriaSchema,
+        action: z.object({
+          addLabels: labelNamesSchema,
+          removeLabels: labelNamesSchema,
+          archive: z.boolean().optional().describe("Skip the inbox"),
+          markAsRead: z.boolean().optional(),
+          star: z.boolean().optional(),
+          markImportant: z.boolean().optional(),
+          neverImportant: z.boolean().optional(),
+          neverSpam: z.boolean().optional(),
+          trash: z.boolean().optional(),
+          forward: z
+            .string()
+            .optional()
+            .describe("Must be a verified forwarding address on the account"),
+        }),
+        dryRun: z.boolean().optional().default(false),
+      },
+      async ({ criteria, action, dryRun }) => {
+        const res = await this.googleService.createFilter(
+          criteria,
+          action,
+          dryRun
+        );
+        return this.formatResponse(res);
+      }
+    );
+
+    server.tool(
+      "deleteFilter",
+      "Delete a Gmail filter by ID (from listFilters)",
+      { filterId: z.string() },
+      async ({ filterId }) => {
+        await this.googleService.deleteFilter(filterId);
+        return this.formatResponse({ filterId });
+      }
+    );
+
+    const bulkTargetSchema = {
+      emailIds: z
+        .array(z.string())
+        .optional()
+        .describe("Email IDs; give these or query"),
+      query: z
+        .string()
+        .optional()
+        .describe(
+          'Gmail search selecting the emails, e.g. "in:inbox older_than:7d"'
+        ),
+      limit: z
+        .number()
+        .int()
+        .min(1)
+        .max(BULK_MAX_MESSAGES)
+        .optional()
+        .default(100)
+        .describe(
+          "Most emails to touch in one call; moreMatched reports leftovers"
+        ),
+      dryRun: z
+        .boolean()
+        .optional()
+        .default(false)
+        .describe("Only report which emails would change"),
+    };
+
+    server.tool(
+      "bulkMarkAsRead",
+      "Mark many Gmail emails as read in one call; returns exactly which IDs changed",
+      bulkTargetSchema,
+      async ({ emailIds, query, limit, dryRun }) => {
+        const res = await this.googleService.bulkModifyEmails(
+          { ids: emailIds, query },
+          [],
+          ["UNREAD"],
+          { dryRun, limit }
+        );
+        return this.formatResponse(res);
+      }
+    );
+
+    server.tool(
+      "bulkArchive",
+      "Archive many Gmail emails (remove from INBOX) in one call; returns exactly which IDs changed",
+      bulkTargetSchema,
+      async ({ emailIds, query, limit, dryRun }) => {
+        const res = await this.googleService.bulkModifyEmails(
+          { ids: emailIds, query },
+          [],
+          ["INBOX"],
+          { dryRun, limit }
+        );
+        return this.formatResponse(res);
+      }
+    );
+
+    server.tool(
+      "getVacationResponder",
+      "Read the Gmail vacation responder (out-of-office auto-reply) settings",
+      { timeZone: timeZoneSchema },
+      async ({ timeZone }) => {
+        const vacation =
+          await this.googleService.getVacationResponder(timeZone);
+        return this.formatResponse(vacation);
+      }
+    );
+
+    server.tool(
+      "updateVacationResponder",
+      "Turn the Gmail vacation responder on or off and change its message, dates or audience. Omitted fields keep their current value.",
+      {
+        enabled: z.boolean(),
+        subject: z.string().optional(),
+        body: z.string().optional().describe("Plaintext reply"),
+        htmlBody: z.string().optional().describe("HTML reply"),
+        startDate: z
+          .string()
+          .nullable()
+          .optional()
+          .describe(
+            "First day (YYYY-MM-DD) or ISO 8601 instant with offset; null removes the start bound"
+          ),
+        endDate: z
+          .string()
+          .nullable()
+          .optional()
+          .describe(
+            "Last day, inclusive (YYYY-MM-DD) or ISO 8601 instant with offset; null removes the end bound"
+          ),
+        timeZone: timeZoneSchema.describe(
+          "IANA zone for whole-day dates; defaults to the primary calendar's zone"
+        ),
+        restrictToContacts: z
+          .boolean()
+          .optional()
+          .describe("Only reply to people in Contacts"),
+        restrictToDomain: z
+          .boolean()
+          .optional()
+          .describe("Only reply to people in the same Google Workspace domain"),
+        outOfOfficeEvent: z
+          .boolean()
+          .optional()
+          .default(false)
+          .describe(
+            'Also add an all-day "Out of office" event on the primary calendar covering the dates'
+          ),
+      },
+      async ({ outOfOfficeEvent, ...input }) => {
+        const res = await this.googleService.updateVacationResponder(input, {
+          outOfOfficeEvent,
+        });
+        return this.formatResponse(res);
+      }
+    );
+
     server.tool(
       "getEmail",
-      "Get a Gmail email by ID",
-      { emailId: z.string() },
-      async ({ emailId }) => {
-        const email = await this.googleService.getEmail(emailId);
+      "Get a Gmail email by ID (includes an attachments list for getEmailAttachment)",
+      { emailId: z.string(), format: emailFormatSchema("full") },
+      async ({ emailId, format }) => {
+        const email = await this.googleService.getEmail(emailId, format);
         return this.formatResponse(email);
       }
     );
 
+    server.tool(
+      "getEmailAttachment",
+      "Download an email attachment listed in getEmail's attachments. Text files come back as text, images as images and anything else as an embedded blob resource.",
+      {
+        emailId: z.string(),
+        partId: z
+          .string()
+          .optional()
+          .describe("Attachment partId from getEmail (preferred; stable)"),
+        attachmentId: z
+          .string()
+          .optional()
+          .describe("Attachment attachmentId from getEmail"),
+        maxBytes: z
+          .number()
+          .int()
+          .positive()
+          .max(25 * 1024 * 1024)
+          .optional()
+          .default(DEFAULT_ATTACHMENT_MAX_BYTES)
+          .describe("Refuse attachments larger than this many bytes"),
+      },
+      async ({ emailId, partId, attachmentId, maxBytes }) => {
+        const attachment = await this.googleService.getEmailAttachment(
+          emailId,
+          { partId, attachmentId },
+          maxBytes
+        );
+        const { messageId, filename, mimeType, size } = attachment;
+        const meta = {
+          type: "text" as const,
+          text: JSON.stringify(
+            { messageId, partId: attachment.partId, filename, mimeType, size },
+            null,
+            2
+          ),
+        };
+        if ("text" in attachment) {
+          return {
+            content: [meta, { type: "text" as const, text: attachment.text }],
+          };
+        }
+        if (mimeType.startsWith("image/")) {
+          return {
+            content: [
+              meta,
+              { type: "image" as const, data: attachment.base64, mimeType },
+            ],
+          };
+        }
+        return {
+          content: [
+            meta,
+            {
+              type: "resource" as const,
+              resource: {
+                uri: `gmail://messages/${emailId}/parts/${
+                  attachment.partId ?? attachmentId
+                }`,
+                mimeType,
+                blob: attachment.base64,
+              },
+            },
+          ],
+        };
+      }
+    );
+
+    server.tool(
+      "getThread",
+      "Get every message in a Gmail conversation, oldest first",
+      { threadId: z.string(), format: emailFormatSchema("full") },
+      async ({ threadId, format }) => {
+        const thread = await this.googleService.getThread(threadId, format);
+        return this.formatResponse(thread);
+      }
+    );
+
+    server.tool(
+      "searchThreads",
+      "Search Gmail conversations; returns one line per thread (subject, participants, message count, last message date, unread) and nextPageToken when more match",
+      {
+        folder: folderSchema,
+        startDate: z.string().optional().describe("Start ISO 8601"),
+        endDate: z.string().optional().describe("End ISO 8601"),
+        fromAddress: z.string().optional(),
+        toAddress: z.string().optional(),
+        query: z.string().optional().describe("Gmail search syntax"),
+        maxResults: z.number().int().min(1).max(100).optional().default(25),
+        pageToken: z
+          .string()
+          .optional()
+          .describe("nextPageToken from a previous searchThreads call"),
+      },
+      async ({ folder, ...options }) => {
+        const threads = await this.googleService.searchThreads(folder, options);
+        return this.formatResponse(threads);
+      }
+    );
+
+    server.tool(
+      "markThreadAsRead",
+      "Mark every message in a Gmail conversation as read",
+      { threadId: z.string() },
+      async ({ threadId }) => {
+        const thread = await this.googleService.markThreadAsRead(threadId);
+        return this.formatResponse(thread);
+      }
+    );
+
+    server.tool(
+      "archiveThread",
+      "Archive a Gmail conversation (remove every message from INBOX)",
+      { threadId: z.string() },
+      async ({ threadId }) => {
+        const thread = await this.googleService.archiveThread(threadId);
+        return this.formatResponse(thread);
+      }
+    );
+
+    server.tool(
+      "modifyThreadLabels",
+      "Add or remove labels on every message in a Gmail conversation",
+      {
+        threadId: z.string(),
+        addLabels: labelNamesSchema,
+        removeLabels: labelNamesSchema,
+      },
+      async ({ threadId, addLabels, removeLabels }) => {
+        const thread = await this.googleService.modifyThread(
+          threadId,
+          addLabels,
+          removeLabels
+        );
+        return this.formatResponse(thread);
+      }
+    );
+
     server.tool(
       "draftEmail",
-      "Create a Gmail draft (plaintext)",
+      "Create a Gmail draft with a plaintext and/or HTML body and optional attachments",
       {
         subject: z.string(),
-        body: z.string(),
+        body: z
+          .string()
+          .optional()
+          .describe("Plaintext body; required unless htmlBody is given"),
+        htmlBody: htmlBodySchema,
         toRecipients: z.array(z.string()).min(1),
         ccRecipients: z.array(z.string()).optional(),
         bccRecipients: z.array(z.string()).optional(),
+        attachments: attachmentsSchema,
       },
-      async ({ subject, body, toRecipients, ccRecipients, bccRecipients }) => {
+      async ({
+        subject,
+        body,
+        htmlBody,
+        toRecipients,
+        ccRecipients,
+        bccRecipients,
+        attachments,
+      }) => {
         const draft = await this.googleService.draftEmail(
           subject,
           body,
           toRecipients,
           ccRecipients,
-          bccRecipients
+          bccRecipients,
+          { htmlBody, attachments }
         );
         return this.formatResponse(draft);
       }
@@ -232,17 +1142,44 @@ export class GoogleMCP extends McpAgent<Env, unknown, GoogleAuthContext> {
 
     server.tool(
       "createReplyDraft",
-      "Create a reply (or reply-all) draft to an email",
+      "Create a reply (or reply-all) draft to an email. Recipients follow Gmail: Reply-To or From, plus the other To and Cc addresses on reply-all, never your own address",
       {
         originalEmailId: z.string(),
         replyAll: z.boolean().optional().default(false),
         body: z.string().optional(),
+        htmlBody: htmlBodySchema,
+        attachments: attachmentsSchema,
       },
-      async ({ originalEmailId, replyAll, body }) => {
+      async ({ originalEmailId, replyAll, body, htmlBody, attachments }) => {
         const draft = await this.googleService.createReplyDraft(
           originalEmailId,
           replyAll,
-          body
+          body,
+          { htmlBody, attachments }
+        );
+        return this.formatResponse(draft);
+      }
+    );
+
+    server.tool(
+      "createForwardDraft",
+      "Create a draft forwarding an email: optional note, the original's From/Date/Subject/To block, its body (HTML kept when present) and attachments",
+      {
+        originalEmailId: z.string(),
+        toRecipients: z.array(z.string()).min(1),
+        ccRecipients: z.array(z.string()).optional(),
+        bccRecipients: z.array(z.string()).optional(),
+        note: z
+          .string()
+          .optional()
+          .describe("Intro text above the forwarded message"),
+        includeAttachments: z.boolean().optional().default(true),
+      },
+      async ({ originalEmailId, toRecipients, ...options }) => {
+        const draft = await this.googleService.createForwardDraft(
+          originalEmailId,
+          toRecipients,
+          options
         );
         return this.formatResponse(draft);
       }
@@ -250,7 +1187,7 @@ export class GoogleMCP extends McpAgent<Env, unknown, GoogleAuthContext> {
 
     server.tool(
       "updateEmailDraft",
-      "Replace content/recipients of an existing Gmail draft",
+      "Update an existing Gmail draft. Only the fields given change; the rest, including attachments and reply threading, is kept. A new body without htmlBody replaces any HTML version. attachments replaces the draft's attachments (reference the draft's message and partId to keep one)",
       {
         emailId: z.string().describe("Draft ID"),
         subject: z.string().optional(),
@@ -258,6 +1195,8 @@ export class GoogleMCP extends McpAgent<Env, unknown, GoogleAuthContext> {
         toRecipients: z.array(z.string()).optional(),
         ccRecipients: z.array(z.string()).optional(),
         bccRecipients: z.array(z.string()).optional(),
+        htmlBody: htmlBodySchema,
+        attachments: attachmentsSchema,
       },
       async ({
         emailId,
@@ -266,6 +1205,8 @@ export class GoogleMCP extends McpAgent<Env, unknown, GoogleAuthContext> {
         toRecipients,
         ccRecipients,
         bccRecipients,
+        htmlBody,
+        attachments,
       }) => {
         const updated = await this.googleService.updateEmailDraft(
           emailId,
@@ -273,7 +1214,8 @@ export class GoogleMCP extends McpAgent<Env, unknown, GoogleAuthContext> {
           body,
           toRecipients,
           ccRecipients,
-          bccRecipients
+          bccRecipients,
+          { htmlBody, attachments }
         );
         return this.formatResponse(updated);
       }
@@ -289,13 +1231,134 @@ export class GoogleMCP extends McpAgent<Env, unknown, GoogleAuthContext> {
       }
     );
 
+    server.tool(
+      "scheduleSend",
+      "Send a Gmail draft later. Editing or deleting the draft before then cancels the send (reported by listScheduledSends). If the server holds no refresh token for this session, sendAt cannot be later than the current access token's expiry.",
+      {
+        draftId: z.string().describe("Draft ID"),
+        sendAt: z
+          .string()
+          .describe(
+            "When to send, ISO 8601 with offset, e.g. 2025-03-10T09:00:00-04:00"
+          ),
+      },
+      async ({ draftId, sendAt }) => {
+        const when = Date.parse(sendAt);
+        if (Number.isNaN(when) || !hasOffset(sendAt))
+          throw new Error("sendAt must be ISO 8601 with an offset");
+        if (when <= Date.now()) throw new Error("sendAt must be in the future");
+
+        // the send runs without the client, so it needs its own way to a token
+        const refreshToken = await getRefreshToken(
+          this.env,
+          this.props.accessToken
+        );
+        if (
+          !refreshToken &&
+          !(await this.ctx.storage.get<string>(REFRESH_TOKEN_KEY))
+        ) {
+          const expiresAt = await this.googleService.accessTokenExpiry();
+          if (when > expiresAt)
+            throw new Error(
+              `No refresh token is on file for this session, so sendAt cannot be after ${new Date(
+                expiresAt
+              ).toISOString()} when the access token expires; reconnect to schedule further ahead`
+            );
+        }
+
+        const draft = await this.googleService.getDraft(draftId);
+        const send: ScheduledSend = {
+          id: crypto.randomUUID(),
+          draftId,
+          draftMessageId: draft.message.id,
+          subject: draft.message.subject,
+          sendAt: new Date(when).toISOString(),
+          status: "pending",
+        };
+        if (refreshToken)
+          await this.ctx.storage.put(REFRESH_TOKEN_KEY, refreshToken);
+        await this.putScheduledSend(send);
+        await this.armAlarm();
+        return this.formatResponse(send);
+      }
+    );
+
+    server.tool(
+      "listScheduledSends",
+      "List drafts scheduled with scheduleSend in this session, including sent, failed (with the reason) and cancelled ones",
+      {
+        pendingOnly: z.boolean().optional().default(false),
+      },
+      async ({ pendingOnly }) => {
+        const sends = await this.scheduledSends();
+        return this.formatResponse(
+          pendingOnly ? sends.filter((s) => s.status === "pending") : sends
+        );
+      }
+    );
+
+    server.tool(
+      "cancelScheduledSend",
+      "Cancel a pending scheduled send; the draft itself is kept",
+      { sendId: z.string().describe("id returned by scheduleSend") },
+      async ({ sendId }) => {
+        const send = await this.ctx.storage.get<ScheduledSend>(
+          `${SCHEDULED_SEND_PREFIX}${sendId}`
+        );
+        if (!send) throw new Error(`No scheduled send ${sendId}`);
+        if (send.status !== "pending")
+          throw new Error(`Scheduled send ${sendId} is already ${send.status}`);
+        send.status = "cancelled";
+        send.nextAttemptAt = undefined;
+        send.finishedAt = new Date().toISOString();
+        await this.putScheduledSend(send);
+        await this.armAlarm();
+        return this.formatResponse(send);
+      }
+    );
+
     server.tool(
       "deleteEmail",
-      "Delete a Gmail email by ID",
+      "Move a Gmail email to Trash (recoverable for 30 days with untrashEmail)",
       { emailId: z.string() },
       async ({ emailId }) => {
-        await this.googleService.deleteEmail(emailId);
-        return this.formatResponse({ emailId });
+        const res = await this.googleService.deleteEmail(emailId);
+        return this.formatResponse(res);
+      }
+    );
+
+    server.tool(
+      "untrashEmail",
+      "Restore a Gmail email from Trash",
+      { emailId: z.string() },
+      async ({ emailId }) => {
+        const res = await this.googleService.untrashEmail(emailId);
+        return this.formatResponse(res);
+      }
+    );
+
+    server.tool(
+      "permanentlyDeleteEmail",
+      "PERMANENTLY delete a Gmail email, skipping Trash. It cannot be recovered; prefer deleteEmail. Needs the https://mail.google.com/ scope.",
+      {
+        emailId: z.string(),
+        confirm: z
+          .literal(true)
+          .describe("Must be true to acknowledge the email is gone for good"),
+      },
+      async ({ emailId }) => {
+        await this.googleService.permanentlyDeleteEmail(emailId);
+        return this.formatResponse({ emailId, permanentlyDeleted: true });
+      }
+    );
+
+    server.tool(
+      "deleteDraft",
+      "Discard a Gmail draft by draft ID (drafts have no Trash, so this cannot be undone)",
+      { draftId: z.string().describe("Draft ID") },
+      async ({ draftId }) => {
+        await this.googleService.deleteDraft(draftId);
+        return this.formatResponse({ draftId });
       }
     );
 
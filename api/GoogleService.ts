@@ -1,16 +1,443 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 import { z } from "zod";
-import { putServerCursor } from "./lib/kv-helpers";
+import {
+  getToolSyncToken,
+  putCalendarChannel,
+  putCalendarSyncToken,
+  putServerCursor,
+  putToolSyncToken,
+} from "./lib/kv-helpers";
+import {
+  addDays,
+  formatZonedIso,
+  hasOffset,
+  isDateOnly,
+  isValidTimeZone,
+  toCalendarDate,
+  toZonedDate,
+  weekdayOf,
+  zonedTimeToUtc,
+} from "./lib/time-zones";
+import {
+  GOOGLE_EVENT_COLOR_NAMES,
+  buildCategoryColors,
+  configNeedsPalette,
+  parseCategoryConfig,
+} from "./lib/event-colors";
+import type { CategoryColors, EventPalette } from "./lib/event-colors";
+import { buildICalendar, parseICalendar } from "./lib/ics";
+import {
+  base64UrlToBytes,
+  buildMimeMessage,
+  bytesToBase64,
+  bytesToBase64Url,
+  assertHeaderSafe,
+  collectAttachments,
+  decodeHeaderValue,
+  decodeHtmlEntities,
+  decodeText,
+  encodeHeaderValue,
+  escapeHtml,
+  extractBodyHtml,
+  extractBodyText,
+  findPart,
+  htmlToText,
+  isTextMimeType,
+} from "./lib/mime";
+import type { AttachmentInfo, MimeAttachment } from "./lib/mime";
+import {
+  formatAddressList,
+  parseAddressList,
+  replyRecipients,
+  toAddresses,
+} from "./lib/addresses";
+import type { EmailAddress } from "./lib/addresses";
+import {
+  batchOk,
+  buildBatchBody,
+  parseBatchResponse,
+} from "./lib/google-batch";
+import type { BatchRequest, BatchResult } from "./lib/google-batch";
+import {
+  criteriaToQuery,
+  filterLabelChanges,
+  validateCriteria,
+} from "./lib/gmail-filters";
+import type { FilterAction, FilterCriteria } from "./lib/gmail-filters";
+import {
+  hasCountRule,
+  splitRecurrence,
+  validateRecurrence,
+} from "./lib/recurrence";
 
-// ambient declarations for Web-available helpers in Workers
-declare const btoa: (s: string) => string;
+export type CalendarEventReminder = {
+  method: "popup" | "email";
+  minutes: number;
+};
+
+// Fields shared by createCalendarEvent and updateCalendarEvent
+export type CalendarEventInput = {
+  subject?: string;
+  startDate?: string;
+  endDate?: string;
+  timeZone?: string;
+  reminderMinutesBeforeStart?: number;
+  reminders?: CalendarEventReminder[];
+  body?: string;
+  location?: string;
+  isAllDay?: boolean;
+  categories?: string[];
+  attendees?: string[];
+  recurrence?: string[];
+  addGoogleMeet?: boolean;
+};
+
+// Which occurrences of a recurring event an edit or delete applies to
+export type RecurrenceScope = "instance" | "following" | "series";
+
+// Series-level fields carried over when a series is split in two
+const SERIES_FIELDS = [
+  "summary",
+  "description",
+  "location",
+  "attendees",
+  "reminders",
+  "colorId",
+  "transparency",
+  "visibility",
+  "guestsCanModify",
+  "guestsCanInviteOthers",
+  "guestsCanSeeOtherGuests",
+  "extendedProperties",
+];
+
+type EventTime = { date?: string; dateTime?: string; timeZone?: string };
+
+const sameStart = (a?: EventTime, b?: EventTime) =>
+  a?.date !== undefined
+    ? a.date === b?.date
+    : Date.parse(a?.dateTime ?? "") === Date.parse(b?.dateTime ?? "");
+
+// Re-express timed start/end values in the requested zone
+function normalizeEventTimes(event: any, timeZone?: string) {
+  if (!timeZone || !event) return event;
+  for (const key of ["start", "end", "originalStartTime"]) {
+    const value = event[key];
+    if (value?.dateTime) {
+      event[key] = {
+        ...value,
+        dateTime: formatZonedIso(new Date(value.dateTime), timeZone),
+        timeZone,
+      };
+    }
+  }
+  return event;
+}
+
+// Flatten Google's conferenceData into the bits an agent actually needs
+function summarizeConference(event: any) {
+  const data = event?.conferenceData;
+  if (!data) return event;
+  const entryPoints: any[] = data.entryPoints ?? [];
+  const video = entryPoints.find((e) => e.entryPointType === "video");
+  const more = entryPoints.find((e) => e.entryPointType === "more");
+  event.conference = {
+    // "pending" means Google is still creating the Meet; fetch the event again later
+    status: data.createRequest?.status?.statusCode ?? "success",
+    type: data.conferenceSolution?.key?.type,
+    conferenceId: data.conferenceId,
+    joinUrl: video?.uri ?? event.hangoutLink,
+    meetingCode: video?.meetingCode,
+    dialIn: entryPoints
+      .filter((e) => e.entryPointType === "phone")
+      .map((e) => ({
+        number: e.label ?? String(e.uri).replace(/^tel:/, ""),
+        pin: e.pin,
+        regionCode: e.regionCode,
+      })),
+    moreDialInUrl: more?.uri,
+  };
+  return event;
+}
+
+function presentEvent(
+  event: any,
+  timeZone?: string,
+  categoryNames?: Map<string, string>
+) {
+  const name = event?.colorId && categoryNames?.get(event.colorId);
+  if (name) event.categories = [name];
+  return summarizeConference(normalizeEventTimes(event, timeZone));
+}
+
+// conferenceData is only read/written when the client opts into version 1
+function withConferenceVersion(url: string, resource: any) {
+  if (resource.conferenceData === undefined) return url;
+  const u = new URL(url);
+  u.searchParams.set("conferenceDataVersion", "1");
+  return u.toString();
+}
+
+// Compact view of an event for change reports
+const summarizeChange = (e: any) => ({
+  id: e.id,
+  summary: e.summary,
+  start: e.start,
+  end: e.end,
+  recurringEventId: e.recurringEventId,
+  htmlLink: e.htmlLink,
+});
+
+// Sort incremental sync results into created / updated / cancelled
+export function classifyCalendarChanges(events: any[]) {
+  const created: any[] = [];
+  const updated: any[] = [];
+  const cancelled: any[] = [];
+  for (const e of events) {
+    if (e.status === "cancelled") {
+      cancelled.push({ id: e.id, recurringEventId: e.recurringEventId });
+    } else if (
+      // Google stamps created/updated a few ms apart on a brand-new event
+      Math.abs(Date.parse(e.updated) - Date.parse(e.created)) < 2000
+    ) {
+      created.push(summarizeChange(e));
+    } else {
+      updated.push(summarizeChange(e));
+    }
+  }
+  return { created, updated, cancelled };
+}
+
+// Default cap on attachment downloads returned through MCP
+export const DEFAULT_ATTACHMENT_MAX_BYTES = 5 * 1024 * 1024;
+
+// Gmail splits conversations at 100 messages, so a thread query never needs more IDs
+const THREAD_QUERY_MAX_IDS = 100;
+
+// Gmail accepts up to 100 calls per batch but throttles large ones; 50 is its advice
+const GMAIL_BATCH_SIZE = 50;
+
+// Upper bound for one bulk operation (batchModify itself takes up to 1000 IDs)
+export const BULK_MAX_MESSAGES = 500;
+
+// Gmail rejects messages over 25MB once attachments are included
+const GMAIL_MAX_MESSAGE_BYTES = 25 * 1024 * 1024;
+
+// Either inline base64 content or a part of a message already in the mailbox
+export type EmailAttachmentInput =
+  | {
+      filename: string;
+      mimeType?: string;
+      contentBase64: string;
+      contentId?: string;
+    }
+  | {
+      messageId: string;
+      partId?: string;
+      attachmentId?: string;
+      filename?: string;
+      mimeType?: string;
+      contentId?: string;
+    };
+
+// Optional content shared by draftEmail, createReplyDraft and updateEmailDraft
+export type EmailContentOptions = {
+  htmlBody?: string;
+  attachments?: EmailAttachmentInput[];
+};
+
+// metadata: headers and snippet only (no body fetched); summary: plus attachments;
+// full: plus the decoded body; raw: Gmail's own message resource
+export type EmailFormat = "metadata" | "summary" | "full" | "raw";
+
+// Headers requested for format=metadata: presentEmail's summary fields plus
+// Message-ID, which thread filtering searches on
+const METADATA_HEADERS = ["From", "To", "Cc", "Subject", "Date", "Message-ID"];
+
+function presentEmail(message: any, format: EmailFormat) {
+  const attachments = collectAttachments(message.payload);
+  if (format === "raw") return { ...message, attachments };
+  const headers: any[] = message.payload?.headers ?? [];
+  const get = (name: string): string | undefined =>
+    headers.find((h) => h.name?.toLowerCase() === name)?.value;
+  const summary = {
+    id: message.id,
+    threadId: message.threadId,
+    from: parseAddressList(get("from"))[0],
+    to: parseAddressList(get("to")),
+    cc: parseAddressList(get("cc")),
+    subject: decodeHeaderValue(get("subject") ?? ""),
+    date: message.internalDate
+      ? new Date(Number(message.internalDate)).toISOString()
+      : get("date"),
+    labels: message.labelIds ?? [],
+    snippet: decodeHtmlEntities(message.snippet ?? ""),
+  };
+  if (format === "metadata") return summary;
+  if (format === "summary") return { ...summary, attachments };
+  return {
+    ...summary,
+    attachments,
+    bcc: parseAddressList(get("bcc")),
+    replyTo: parseAddressList(get("reply-to")),
+    messageId: get("message-id"),
+    body: extractBodyText(message.payload),
+  };
+}
+
+export type GmailLabel = {
+  id: string;
+  name: string;
+  type: "system" | "user";
+  messageListVisibility?: "show" | "hide";
+  labelListVisibility?: "labelShow" | "labelShowIfUnread" | "labelHide";
+  color?: { backgroundColor: string; textColor: string };
+};
+
+// searchEmails folder names that predate label support
+const FOLDER_LABELS: Record<string, string | undefined> = {
+  inbox: "INBOX",
+  sentitems: "SENT",
+  drafts: "DRAFT",
+  archive: undefined, // archive == not INBOX
+  all: undefined, // everything but spam and trash
+};
+
+// By ID first, then by name, ignoring case
+function matchLabel(labels: GmailLabel[], nameOrId: string) {
+  const label =
+    labels.find((l) => l.id === nameOrId) ??
+    labels.find((l) => l.name.toLowerCase() === nameOrId.toLowerCase());
+  if (!label)
+    throw new Error(`Unknown Gmail label "${nameOrId}"; see listLabels`);
+  return label;
+}
+
+function presentFilter(filter: any, labelNames: Map<string, string>) {
+  const name = (id: string) => labelNames.get(id) ?? id;
+  const criteria: FilterCriteria = filter.criteria ?? {};
+  return {
+    id: filter.id,
+    criteria,
+    query: criteriaToQuery(criteria),
+    action: {
+      addLabels: (filter.action?.addLabelIds ?? []).map(name),
+      removeLabels: (filter.action?.removeLabelIds ?? []).map(name),
+      forward: filter.action?.forward,
+    },
+  };
+}
+
+const headerMap = (payload: any) => {
+  const headers = new Map<string, string>();
+  for (const h of payload?.headers ?? []) {
+    if (h.name && h.value) headers.set(h.name.toLowerCase(), h.value);
+  }
+  return headers;
+};
+
+// Headers that keep a reply or forward in the original's conversation
+function threadingHeaders(original: any) {
+  const headers = headerMap(original.payload);
+  const messageId = headers.get("message-id");
+  const references = [headers.get("references"), messageId]
+    .filter(Boolean)
+    .join(" ");
+  return {
+    inReplyTo: messageId,
+    references: references || undefined,
+    threadId: original.threadId as string | undefined,
+  };
+}
+
+export type VacationInput = {
+  enabled: boolean;
+  subject?: string;
+  body?: string;
+  htmlBody?: string;
+  startDate?: string | null; // null clears the bound
+  endDate?: string | null;
+  timeZone?: string;
+  restrictToContacts?: boolean;
+  restrictToDomain?: boolean;
+};
+
+function presentVacation(settings: any, timeZone?: string) {
+  const time = (ms?: string) => {
+    if (!ms) return undefined;
+    const date = new Date(Number(ms));
+    return timeZone ? formatZonedIso(date, timeZone) : date.toISOString();
+  };
+  return {
+    enabled: Boolean(settings.enableAutoReply),
+    subject: settings.responseSubject,
+    body: settings.responseBodyPlainText,
+    htmlBody: settings.responseBodyHtml,
+    restrictToContacts: Boolean(settings.restrictToContacts),
+    restrictToDomain: Boolean(settings.restrictToDomain),
+    startTime: time(settings.startTime),
+    endTime: time(settings.endTime),
+  };
+}
+
+// Gmail adds a single "Re:" and never stacks them
+const replySubject = (subject: string) =>
+  /^\s*re\s*:/i.test(subject) ? subject : `Re: ${subject}`;
+
+const byInternalDate = (a: any, b: any) =>
+  Number(a.internalDate ?? 0) - Number(b.internalDate ?? 0);
+
+function presentThread(thread: any, format: EmailFormat) {
+  const messages = [...(thread.messages ?? [])].sort(byInternalDate);
+  return {
+    id: thread.id,
+    historyId: thread.historyId,
+    messages: messages.map((m) => presentEmail(m, format)),
+  };
+}
+
+// One line per conversation for searchThreads results
+function summarizeThread(thread: any) {
+  const messages = [...(thread.messages ?? [])]
+    .sort(byInternalDate)
+    .map((m) => presentEmail(m, "metadata"));
+  const first = messages[0];
+  const last = messages[messages.length - 1];
+  const participants = new Map<string, any>();
+  for (const m of messages)
+    if (m.from && !participants.has(m.from.email.toLowerCase()))
+      participants.set(m.from.email.toLowerCase(), m.from);
+  const labels = new Set<string>(messages.flatMap((m) => m.labels));
+  return {
+    id: thread.id,
+    subject: first?.subject ?? "",
+    snippet: last?.snippet ?? "",
+    messageCount: messages.length,
+    participants: [...participants.values()],
+    lastMessageDate: last?.date,
+    labels: [...labels],
+    unread: labels.has("UNREAD"),
+  };
+}
+
+export class GoogleApiError extends Error {
+  status: number;
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = "GoogleApiError";
+    this.status = status;
+  }
+}
 
 export class GoogleService {
   private env: Env;
   private accessToken: string;
   private gmailBase = "https://gmail.googleapis.com/gmail/v1";
+  private gmailBatchUrl = "https://gmail.googleapis.com/batch/gmail/v1";
   private calendarBase = "https://www.googleapis.com/calendar/v3";
   private userId = "me"; // Google APIs support special alias "me" for the current user
+  private categoryColorCache?: Promise<CategoryColors>;
+  private labelCache?: GmailLabel[];
 
   constructor(env: Env, accessToken: string) {
     this.env = env;
@@ -31,127 +458,884 @@ export class GoogleService {
     });
     if (!res.ok) {
       const text = await res.text().catch(() => "");
-      throw new Error(`Google API error ${res.status}: ${text}`);
+      throw new GoogleApiError(
+        `Google API error ${res.status}: ${text}`,
+        res.status
+      );
     }
     if (res.status === 204) return undefined as unknown as T;
     return (await res.json()) as T;
   }
 
+  // Many Gmail calls in few round trips; results are in request order and
+  // failed items carry their own status instead of failing the whole call
+  private async gmailBatch<T>(
+    requests: BatchRequest[]
+  ): Promise<BatchResult<T>[]> {
+    const results: BatchResult<T>[] = [];
+    for (let i = 0; i < requests.length; i += GMAIL_BATCH_SIZE) {
+      const chunk = requests.slice(i, i + GMAIL_BATCH_SIZE);
+      const boundary = `batch_${crypto.randomUUID().replace(/-/g, "")}`;
+      const res = await fetch(this.gmailBatchUrl, {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${this.accessToken}`,
+          "Content-Type": `multipart/mixed; boundary=${boundary}`,
+        },
+        body: buildBatchBody(chunk, boundary),
+      });
+      if (!res.ok) {
+        const text = await res.text().catch(() => "");
+        throw new GoogleApiError(
+          `Google API error ${res.status}: ${text}`,
+          res.status
+        );
+      }
+      results.push(
+        ...parseBatchResponse<T>(
+          await res.text(),
+          res.headers.get("content-type") ?? "",
+          chunk.length
+        )
+      );
+    }
+    return results;
+  }
+
+  // When the access token this service uses stops working (epoch ms)
+  async accessTokenExpiry() {
+    const url = new URL("https://oauth2.googleapis.com/tokeninfo");
+    url.searchParams.set("access_token", this.accessToken);
+    const info = await this.makeRequest<{ expires_in: string }>(url.toString());
+    return Date.now() + Number(info.expires_in) * 1000;
+  }
+
   /* ----------------------- Calendar ----------------------- */
-  async getUserCalendarEvents(startDate: string, endDate: string) {
-    const url = new URL(`${this.calendarBase}/calendars/primary/events`);
-    url.searchParams.set("timeMin", startDate);
-    url.searchParams.set("timeMax", endDate);
-    url.searchParams.set("singleEvents", "true");
-    url.searchParams.set("orderBy", "startTime");
-    const data = await this.makeRequest<any>(url.toString());
-    return data.items ?? [];
+  private calendarEventsUrl(calendarId: string, eventId?: string) {
+    const base = `${this.calendarBase}/calendars/${encodeURIComponent(
+      calendarId
+    )}/events`;
+    return eventId ? `${base}/${encodeURIComponent(eventId)}` : base;
   }
 
-  async createCalendarEvent(
-    subject: string,
-    startDate: string,
-    endDate: string,
-    _reminderMinutesBeforeStart: number,
-    body?: string,
-    location?: string,
-    isAllDay?: boolean,
-    _categories?: string[],
-    attendees?: string[]
+  async listCalendars(
+    showHidden = false,
+    minAccessRole?: "freeBusyReader" | "reader" | "writer" | "owner"
   ) {
-    const event: any = {
-      summary: subject,
-      description: body,
-      location,
-      attendees: attendees?.map((email) => ({ email })) ?? undefined,
-    };
+    const base = new URL(
+      `${this.calendarBase}/users/${this.userId}/calendarList`
+    );
+    if (showHidden) base.searchParams.set("showHidden", "true");
+    if (minAccessRole) base.searchParams.set("minAccessRole", minAccessRole);
+
+    const calendars: any[] = [];
+    let pageToken: string | undefined;
+    do {
+      const url = new URL(base.toString());
+      if (pageToken) url.searchParams.set("pageToken", pageToken);
+      const data = await this.makeRequest<any>(url.toString());
+      calendars.push(...(data.items ?? []));
+      pageToken = data.nextPageToken;
+    } while (pageToken);
+
+    // Keep only what an agent needs to pick a calendar
+    return calendars.map((c) => ({
+      id: c.id,
+      summary: c.summaryOverride ?? c.summary,
+      description: c.description,
+      primary: c.primary ?? false,
+      accessRole: c.accessRole,
+      timeZone: c.timeZone,
+      backgroundColor: c.backgroundColor,
+      selected: c.selected ?? false,
+      hidden: c.hidden ?? false,
+    }));
+  }
+
+  async getEventColors(): Promise<EventPalette> {
+    const data = await this.makeRequest<{ event?: EventPalette }>(
+      `${this.calendarBase}/colors`
+    );
+    return data.event ?? {};
+  }
+
+  // Parsed once; a bad CALENDAR_CATEGORY_COLORS stays a cached rejection
+  private categoryColors(): Promise<CategoryColors> {
+    this.categoryColorCache ??= (async () => {
+      const config = parseCategoryConfig(this.env.CALENDAR_CATEGORY_COLORS);
+      const palette = configNeedsPalette(config)
+        ? await this.getEventColors()
+        : undefined;
+      return buildCategoryColors(config, palette);
+    })();
+    return this.categoryColorCache;
+  }
+
+  // Names are decoration: a config error leaves them off instead of failing
+  private async categoryNames() {
+    try {
+      return (await this.categoryColors()).byColorId;
+    } catch (e) {
+      if (e instanceof GoogleApiError) throw e;
+      return undefined;
+    }
+  }
+
+  // Google events carry a single colorId, so the first known category wins
+  private async categoryColorId(categories: string[]) {
+    const { byName } = await this.categoryColors();
+    for (const category of categories) {
+      const match = byName.get(category.toLowerCase());
+      if (match) return match.colorId;
+    }
+    throw new Error(
+      `Unknown categories ${categories.join(
+        ", "
+      )}; known categories: ${Array.from(byName.values(), (c) => c.name).join(
+        ", "
+      )}`
+    );
+  }
+
+  async listEventColors() {
+    const [palette, { byName }] = await Promise.all([
+      this.getEventColors(),
+      this.categoryColors(),
+    ]);
+    return Object.entries(palette).map(([colorId, colors]) => ({
+      colorId,
+      name: GOOGLE_EVENT_COLOR_NAMES[colorId],
+      ...colors,
+      categories: Array.from(byName.values())
+        .filter((c) => c.colorId === colorId)
+        .map((c) => c.name),
+    }));
+  }
+
+  private async calendarTimeZone(calendarId: string) {
+    const entry = await this.makeRequest<{ timeZone?: string }>(
+      `${this.calendarBase}/users/${
+        this.userId
+      }/calendarList/${encodeURIComponent(calendarId)}`
+    );
+    return entry.timeZone;
+  }
+
+  // Translate tool-level fields into a Calendar API event resource (or patch)
+  private async buildEventResource(
+    input: CalendarEventInput,
+    calendarId: string
+  ) {
+    // checked up front: presenting the result would throw after the write
+    if (input.timeZone !== undefined && !isValidTimeZone(input.timeZone))
+      throw new Error(`Unknown time zone: ${input.timeZone}`);
+    const event: any = {};
+    if (input.subject !== undefined) event.summary = input.subject;
+    if (input.body !== undefined) event.description = input.body;
+    if (input.location !== undefined) event.location = input.location;
+    if (input.attendees !== undefined)
+      event.attendees = input.attendees.map((email) => ({ email }));
+    if (input.categories !== undefined)
+      // An empty list resets the event to the calendar's color
+      event.colorId = input.categories.length
+        ? await this.categoryColorId(input.categories)
+        : null;
+
+    const { startDate, endDate, isAllDay, recurrence } = input;
+    let { timeZone } = input;
+    if (recurrence !== undefined) {
+      event.recurrence = validateRecurrence(recurrence);
+      // Google can't expand a timed series without an explicit zone
+      if (recurrence.length && !isAllDay && !timeZone && (startDate || endDate))
+        timeZone = await this.calendarTimeZone(calendarId);
+    }
     if (isAllDay) {
-      // All-day uses date only (YYYY-MM-DD)
-      event.start = { date: startDate.slice(0, 10) };
-      event.end = { date: endDate.slice(0, 10) };
+      // All-day events use the calendar date in the event's zone; an instant
+      // like 2025-01-01T03:00:00Z is still Dec 31 in America/New_York
+      const needsZone = [startDate, endDate].some(
+        (d) => d !== undefined && hasOffset(d)
+      );
+      const zone =
+        timeZone ??
+        (needsZone ? await this.calendarTimeZone(calendarId) : undefined);
+      const start = startDate && toCalendarDate(startDate, zone);
+      let end = endDate && toCalendarDate(endDate, zone);
+      // Google's end date is exclusive
+      if (start && end && end <= start) end = addDays(start, 1);
+      if (start) event.start = { date: start, timeZone };
+      if (end) event.end = { date: end, timeZone };
     } else {
-      event.start = { dateTime: startDate };
-      event.end = { dateTime: endDate };
+      if (startDate) event.start = { dateTime: startDate, timeZone };
+      if (endDate) event.end = { dateTime: endDate, timeZone };
+    }
+
+    if (input.addGoogleMeet === true) {
+      event.conferenceData = {
+        createRequest: {
+          requestId: crypto.randomUUID(),
+          conferenceSolutionKey: { type: "hangoutsMeet" },
+        },
+      };
+    } else if (input.addGoogleMeet === false) {
+      event.conferenceData = null;
+    }
+
+    if (input.reminders !== undefined) {
+      event.reminders = { useDefault: false, overrides: input.reminders };
+    } else if (input.reminderMinutesBeforeStart !== undefined) {
+      event.reminders = {
+        useDefault: false,
+        overrides: [
+          { method: "popup", minutes: input.reminderMinutesBeforeStart },
+        ],
+      };
+    }
+    return event;
+  }
+
+  async getUserCalendarEvents(
+    startDate: string,
+    endDate: string,
+    calendarId = "primary",
+    timeZone?: string,
+    expandRecurring = true
+  ) {
+    const base = new URL(this.calendarEventsUrl(calendarId));
+    base.searchParams.set("timeMin", startDate);
+    base.searchParams.set("timeMax", endDate);
+    base.searchParams.set("maxResults", "2500");
+    if (expandRecurring) {
+      base.searchParams.set("singleEvents", "true");
+      // startTime ordering is only allowed on expanded results
+      base.searchParams.set("orderBy", "startTime");
     }
 
-    return this.makeRequest<any>(
-      `${this.calendarBase}/calendars/primary/events`,
+    const events: any[] = [];
+    let pageToken: string | undefined;
+    do {
+      const url = new URL(base.toString());
+      if (pageToken) url.searchParams.set("pageToken", pageToken);
+      const data = await this.makeRequest<any>(url.toString());
+      events.push(...(data.items ?? []));
+      pageToken = data.nextPageToken;
+    } while (pageToken);
+    const names = await this.categoryNames();
+    return events.map((e) => presentEvent(e, timeZone, names));
+  }
+
+  async createCalendarEvent(
+    input: CalendarEventInput & {
+      subject: string;
+      startDate: string;
+      endDate: string;
+    },
+    calendarId = "primary"
+  ) {
+    const event = await this.buildEventResource(input, calendarId);
+    // looked up before the write so nothing can fail once Google saved it
+    const names = await this.categoryNames();
+    const created = await this.makeRequest<any>(
+      withConferenceVersion(this.calendarEventsUrl(calendarId), event),
       {
         method: "POST",
         body: JSON.stringify(event),
       }
     );
+    return presentEvent(created, input.timeZone, names);
   }
 
-  async deleteCalendarEvent(eventId: string) {
-    await this.makeRequest<void>(
-      `${this.calendarBase}/calendars/primary/events/${encodeURIComponent(
-        eventId
-      )}`,
-      { method: "DELETE" }
+  async listEventInstances(
+    eventId: string,
+    calendarId = "primary",
+    startDate?: string,
+    endDate?: string,
+    timeZone?: string,
+    showDeleted = false
+  ) {
+    const base = new URL(
+      `${this.calendarEventsUrl(calendarId, eventId)}/instances`
     );
+    if (startDate) base.searchParams.set("timeMin", startDate);
+    if (endDate) base.searchParams.set("timeMax", endDate);
+    if (showDeleted) base.searchParams.set("showDeleted", "true");
+
+    const instances: any[] = [];
+    let pageToken: string | undefined;
+    do {
+      const url = new URL(base.toString());
+      if (pageToken) url.searchParams.set("pageToken", pageToken);
+      const data = await this.makeRequest<any>(url.toString());
+      instances.push(...(data.items ?? []));
+      pageToken = data.nextPageToken;
+    } while (pageToken);
+    const names = await this.categoryNames();
+    return instances.map((e) => presentEvent(e, timeZone, names));
   }
 
-  async getCalendarEvent(eventId: string) {
-    return this.makeRequest<any>(
-      `${this.calendarBase}/calendars/primary/events/${encodeURIComponent(
-        eventId
-      )}`
+  // End a series just before `occurrence`; returns the recurrence for the rest
+  private async truncateSeries(
+    calendarId: string,
+    master: any,
+    occurrence: any
+  ): Promise<string[]> {
+    const recurrence: string[] = master.recurrence ?? [];
+    const split: EventTime = occurrence.originalStartTime;
+    let occurrencesBefore: number | undefined;
+    if (hasCountRule(recurrence)) {
+      // COUNT includes cancelled occurrences, so count those too
+      const instances = await this.listEventInstances(
+        master.id,
+        calendarId,
+        undefined,
+        undefined,
+        undefined,
+        true
+      );
+      occurrencesBefore = instances.filter((i) => {
+        const t: EventTime = i.originalStartTime ?? i.start;
+        return split.date !== undefined
+          ? (t.date ?? "") < split.date
+          : Date.parse(t.dateTime ?? "") < Date.parse(split.dateTime ?? "");
+      }).length;
+    }
+    const { before, after } = splitRecurrence(
+      recurrence,
+      split,
+      occurrencesBefore
     );
+    await this.makeRequest<any>(this.calendarEventsUrl(calendarId, master.id), {
+      method: "PATCH",
+      body: JSON.stringify({ recurrence: before }),
+    });
+    return after;
   }
 
-  async updateCalendarEvent(
+  // Resolve the instance an eventId names plus the master of its series
+  private async resolveSeries(calendarId: string, eventId: string) {
+    const target = await this.getCalendarEvent(eventId, calendarId);
+    const master = target.recurringEventId
+      ? await this.getCalendarEvent(target.recurringEventId, calendarId)
+      : target;
+    return { target, master };
+  }
+
+  // Scope "instance" on a series master would quietly hit every occurrence
+  private async assertNotSeriesMaster(calendarId: string, eventId: string) {
+    const event = await this.makeRequest<any>(
+      this.calendarEventsUrl(calendarId, eventId)
+    );
+    if (event.recurrence?.length)
+      throw new Error(
+        `Event ${eventId} is a recurring series; pass scope "series" to change every occurrence, or use an occurrence ID from listEventInstances`
+      );
+  }
+
+  async deleteCalendarEvent(
     eventId: string,
-    subject?: string,
-    startDate?: string,
-    endDate?: string,
-    _reminderMinutesBeforeStart?: number,
-    body?: string,
-    location?: string,
-    isAllDay?: boolean,
-    _categories?: string[],
-    attendees?: string[]
+    calendarId = "primary",
+    scope: RecurrenceScope = "instance"
   ) {
-    const patch: any = {};
-    if (subject !== undefined) patch.summary = subject;
-    if (body !== undefined) patch.description = body;
-    if (location !== undefined) patch.location = location;
-    if (attendees !== undefined)
-      patch.attendees = attendees.map((email) => ({ email }));
-    if (startDate || endDate || isAllDay !== undefined) {
-      if (isAllDay) {
-        if (startDate) patch.start = { date: startDate.slice(0, 10) };
-        if (endDate) patch.end = { date: endDate.slice(0, 10) };
-      } else {
-        if (startDate) patch.start = { dateTime: startDate };
-        if (endDate) patch.end = { dateTime: endDate };
+    if (scope === "instance") {
+      await this.assertNotSeriesMaster(calendarId, eventId);
+    } else {
+      const { target, master } = await this.resolveSeries(calendarId, eventId);
+      const fromFirst =
+        scope === "series" ||
+        target.id === master.id ||
+        sameStart(target.originalStartTime, master.start);
+      if (!fromFirst) {
+        await this.truncateSeries(calendarId, master, target);
+        return;
       }
+      eventId = master.id;
     }
+    await this.makeRequest<void>(this.calendarEventsUrl(calendarId, eventId), {
+      method: "DELETE",
+    });
+  }
 
-    return this.makeRequest<any>(
-      `${this.calendarBase}/calendars/primary/events/${encodeURIComponent(
-        eventId
-      )}`,
+  async getCalendarEvent(
+    eventId: string,
+    calendarId = "primary",
+    timeZone?: string
+  ) {
+    const event = await this.makeRequest<any>(
+      this.calendarEventsUrl(calendarId, eventId)
+    );
+    return presentEvent(event, timeZone, await this.categoryNames());
+  }
+
+  async updateCalendarEvent(
+    eventId: string,
+    input: CalendarEventInput,
+    calendarId = "primary",
+    scope: RecurrenceScope = "instance"
+  ) {
+    const patch = await this.buildEventResource(input, calendarId);
+    const names = await this.categoryNames();
+    if (scope === "instance") {
+      await this.assertNotSeriesMaster(calendarId, eventId);
+    } else {
+      const { target, master } = await this.resolveSeries(calendarId, eventId);
+      const fromFirst =
+        scope === "series" ||
+        target.id === master.id ||
+        sameStart(target.originalStartTime, master.start);
+      if (!fromFirst) {
+        return presentEvent(
+          await this.splitSeries(calendarId, master, target, patch),
+          input.timeZone,
+          names
+        );
+      }
+      eventId = master.id;
+    }
+    const updated = await this.makeRequest<any>(
+      withConferenceVersion(this.calendarEventsUrl(calendarId, eventId), patch),
       {
         method: "PATCH",
         body: JSON.stringify(patch),
       }
     );
+    return presentEvent(updated, input.timeZone, names);
+  }
+
+  // Either a single event or every event (series, not occurrences) in a range
+  async exportCalendarIcs(
+    calendarId = "primary",
+    startDate?: string,
+    endDate?: string,
+    eventId?: string
+  ) {
+    if (eventId) {
+      const event = await this.getCalendarEvent(eventId, calendarId);
+      return buildICalendar([event]);
+    }
+    if (!startDate || !endDate)
+      throw new Error("Provide eventId or both startDate and endDate");
+    const events = await this.getUserCalendarEvents(
+      startDate,
+      endDate,
+      calendarId,
+      undefined,
+      false
+    );
+    return buildICalendar(events);
+  }
+
+  async importCalendarIcs(
+    icsText: string,
+    calendarId = "primary",
+    timeZone?: string,
+    sendUpdates: "all" | "externalOnly" | "none" = "none"
+  ) {
+    // Floating times in the file are read in this zone
+    const zone = timeZone ?? (await this.calendarTimeZone(calendarId));
+    const items = parseICalendar(icsText, zone);
+
+    const url = new URL(this.calendarEventsUrl(calendarId));
+    url.searchParams.set("sendUpdates", sendUpdates);
+    const imported: {
+      uid?: string;
+      summary?: string;
+      eventId: string;
+      htmlLink?: string;
+    }[] = [];
+    const skipped: { uid?: string; summary?: string; reason: string }[] = [];
+    // One at a time keeps us well inside Calendar's per-user write quota
+    for (const { uid, summary, event, skipped: reason } of items) {
+      if (!event) {
+        skipped.push({ uid, summary, reason: reason ?? "not importable" });
+        continue;
+      }
+      try {
+        const created = await this.makeRequest<any>(url.toString(), {
+          method: "POST",
+          body: JSON.stringify(event),
+        });
+        imported.push({
+          uid,
+          summary,
+          eventId: created.id,
+          htmlLink: created.htmlLink,
+        });
+      } catch (err) {
+        skipped.push({
+          uid,
+          summary,
+          reason: err instanceof Error ? err.message : String(err),
+        });
+      }
+    }
+    return { calendarId, imported, skipped };
+  }
+
+  async respondToEvent(
+    eventId: string,
+    response: "accepted" | "declined" | "tentative",
+    comment?: string,
+    sendUpdates: "all" | "externalOnly" | "none" = "all",
+    calendarId = "primary"
+  ) {
+    const event = await this.getCalendarEvent(eventId, calendarId);
+    const attendees: any[] = event.attendees ?? [];
+    // Google marks the authenticated user's own attendee entry with self: true
+    const self = attendees.find((a) => a.self);
+    if (!self)
+      throw new Error(
+        `You are not an attendee of event ${eventId}; only invitations can be answered`
+      );
+    self.responseStatus = response;
+    if (comment !== undefined) self.comment = comment;
+
+    const names = await this.categoryNames();
+    const url = new URL(this.calendarEventsUrl(calendarId, eventId));
+    url.searchParams.set("sendUpdates", sendUpdates);
+    const updated = await this.makeRequest<any>(url.toString(), {
+      method: "PATCH",
+      body: JSON.stringify({ attendees }),
+    });
+    return presentEvent(updated, undefined, names);
+  }
+
+  // "This and following": end the original series before `occurrence` and
+  // start a new series there with the patch applied
+  private async splitSeries(
+    calendarId: string,
+    master: any,
+    occurrence: any,
+    patch: any
+  ) {
+    const original: string[] = master.recurrence ?? [];
+    const rest = await this.truncateSeries(calendarId, master, occurrence);
+
+    const split: EventTime = occurrence.originalStartTime;
+    const next: any = { recurrence: rest };
+    for (const field of SERIES_FIELDS) {
+      if (master[field] !== undefined) next[field] = master[field];
+    }
+    // Keep the series' own duration from the original occurrence start
+    if (split.date !== undefined) {
+      const days = Math.round(
+        (Date.parse(master.end.date) - Date.parse(master.start.date)) / 86400000
+      );
+      next.start = { date: split.date, timeZone: master.start.timeZone };
+      next.end = {
+        date: addDays(split.date, days),
+        timeZone: master.end.timeZone,
+      };
+    } else {
+      const duration =
+        Date.parse(master.end.dateTime) - Date.parse(master.start.dateTime);
+      next.start = {
+        dateTime: split.dateTime,
+        timeZone: master.start.timeZone,
+      };
+      next.end = {
+        dateTime: new Date(
+          Date.parse(split.dateTime as string) + duration
+        ).toISOString(),
+        timeZone: master.end.timeZone,
+      };
+    }
+    Object.assign(next, patch);
+
+    try {
+      return await this.makeRequest<any>(
+        withConferenceVersion(this.calendarEventsUrl(calendarId), next),
+        {
+          method: "POST",
+          body: JSON.stringify(next),
+        }
+      );
+    } catch (err) {
+      // Put the original series back rather than losing the remaining occurrences
+      await this.makeRequest<any>(
+        this.calendarEventsUrl(calendarId, master.id),
+        { method: "PATCH", body: JSON.stringify({ recurrence: original }) }
+      ).catch(() => undefined);
+      throw err;
+    }
+  }
+
+  async queryFreeBusy(
+    calendarIds: string[],
+    startDate: string,
+    endDate: string,
+    timeZone?: string
+  ) {
+    const data = await this.makeRequest<{
+      calendars?: Record<
+        string,
+        {
+          busy?: { start: string; end: string }[];
+          errors?: { domain: string; reason: string }[];
+        }
+      >;
+    }>(`${this.calendarBase}/freeBusy`, {
+      method: "POST",
+      body: JSON.stringify({
+        timeMin: new Date(startDate).toISOString(),
+        timeMax: new Date(endDate).toISOString(),
+        timeZone,
+        items: calendarIds.map((id) => ({ id })),
+      }),
+    });
+    return data.calendars ?? {};
+  }
+
+  // Candidate meeting slots inside working hours, ranked by how many attendees are free
+  async findMeetingSlots({
+    attendees,
+    startDate,
+    endDate,
+    durationMinutes,
+    timeZone,
+    workingHoursStart = "09:00",
+    workingHoursEnd = "17:00",
+    includeWeekends = false,
+    includeSelf = true,
+    slotIncrementMinutes = 30,
+    maxResults = 10,
+  }: {
+    attendees: string[];
+    startDate: string;
+    endDate: string;
+    durationMinutes: number;
+    timeZone: string;
+    workingHoursStart?: string;
+    workingHoursEnd?: string;
+    includeWeekends?: boolean;
+    includeSelf?: boolean;
+    slotIncrementMinutes?: number;
+    maxResults?: number;
+  }) {
+    if (!isValidTimeZone(timeZone))
+      throw new Error(`Unknown time zone: ${timeZone}`);
+    const windowStart = new Date(startDate).getTime();
+    const windowEnd = new Date(endDate).getTime();
+    if (Number.isNaN(windowStart) || Number.isNaN(windowEnd))
+      throw new Error("startDate and endDate must be ISO 8601 date/times");
+    if (windowEnd <= windowStart)
+      throw new Error("endDate must be after startDate");
+
+    const calendarIds = Array.from(
+      new Set([...(includeSelf ? ["primary"] : []), ...attendees])
+    );
+    const freeBusy = await this.queryFreeBusy(
+      calendarIds,
+      startDate,
+      endDate,
+      timeZone
+    );
+
+    // Calendars we can't read (no sharing, unknown address) are reported, not counted
+    const busyByCalendar = new Map<string, { start: number; end: number }[]>();
+    const calendarErrors: Record<string, string> = {};
+    for (const id of calendarIds) {
+      const entry = freeBusy[id];
+      if (!entry || entry.errors?.length) {
+        calendarErrors[id] =
+          entry?.errors?.map((e) => e.reason).join(", ") ?? "notFound";
+        continue;
+      }
+      busyByCalendar.set(
+        id,
+        (entry.busy ?? []).map((b) => ({
+          start: new Date(b.start).getTime(),
+          end: new Date(b.end).getTime(),
+        }))
+      );
+    }
+
+    const durationMs = durationMinutes * 60000;
+    const stepMs = slotIncrementMinutes * 60000;
+    const lastDay = toZonedDate(new Date(windowEnd), timeZone);
+    const slots: {
+      start: string;
+      end: string;
+      allAvailable: boolean;
+      available: string[];
+      busy: string[];
+    }[] = [];
+
+    for (
+      let day = toZonedDate(new Date(windowStart), timeZone);
+      day <= lastDay;
+      day = addDays(day, 1)
+    ) {
+      const weekday = weekdayOf(day);
+      if (!includeWeekends && (weekday === 0 || weekday === 6)) continue;
+
+      const dayStart = zonedTimeToUtc(
+        day,
+        workingHoursStart,
+        timeZone
+      ).getTime();
+      const dayEnd = Math.min(
+        zonedTimeToUtc(day, workingHoursEnd, timeZone).getTime(),
+        windowEnd
+      );
+      // Keep slots aligned to the working-day grid even when the window starts mid-day
+      let slotStart = dayStart;
+      if (slotStart < windowStart)
+        slotStart += Math.ceil((windowStart - slotStart) / stepMs) * stepMs;
+
+      for (; slotStart + durationMs <= dayEnd; slotStart += stepMs) {
+        const slotEnd = slotStart + durationMs;
+        const available: string[] = [];
+        const busy: string[] = [];
+        for (const [id, intervals] of busyByCalendar) {
+          const overlaps = intervals.some(
+            (b) => b.start < slotEnd && b.end > slotStart
+          );
+          (overlaps ? busy : available).push(id);
+        }
+        slots.push({
+          start: formatZonedIso(new Date(slotStart), timeZone),
+          end: formatZonedIso(new Date(slotEnd), timeZone),
+          allAvailable: busy.length === 0,
+          available,
+          busy,
+        });
+      }
+    }
+
+    // Fewest conflicts first, then earliest
+    slots.sort(
+      (a, b) =>
+        a.busy.length - b.busy.length ||
+        new Date(a.start).getTime() - new Date(b.start).getTime()
+    );
+
+    return {
+      timeZone,
+      durationMinutes,
+      slots: slots.slice(0, maxResults),
+      calendarErrors,
+    };
+  }
+
+  // Page through events.list; without a sync token this is a full sync.
+  // An expired token (410 Gone) falls back to a full sync, flagged by fullSync.
+  async listCalendarChanges(
+    calendarId = "primary",
+    syncToken?: string
+  ): Promise<{ events: any[]; nextSyncToken: string; fullSync: boolean }> {
+    if (syncToken) {
+      try {
+        return await this.pageCalendarChanges(calendarId, syncToken);
+      } catch (err) {
+        if (!(err instanceof GoogleApiError && err.status === 410)) throw err;
+      }
+    }
+    return this.pageCalendarChanges(calendarId);
+  }
+
+  private async pageCalendarChanges(calendarId: string, syncToken?: string) {
+    const base = new URL(this.calendarEventsUrl(calendarId));
+    base.searchParams.set("maxResults", "2500");
+    if (syncToken) base.searchParams.set("syncToken", syncToken);
+
+    const events: any[] = [];
+    let pageToken: string | undefined;
+    while (true) {
+      const url = new URL(base.toString());
+      if (pageToken) url.searchParams.set("pageToken", pageToken);
+      const data = await this.makeRequest<any>(url.toString());
+      events.push(...(data.items ?? []));
+      // Only the last page carries nextSyncToken
+      if (!data.nextPageToken) {
+        return {
+          events,
+          nextSyncToken: data.nextSyncToken as string,
+          fullSync: !syncToken,
+        };
+      }
+      pageToken = data.nextPageToken;
+    }
+  }
+
+  async syncCalendarChanges(serverName: string, calendarId = "primary") {
+    const syncToken = await getToolSyncToken(this.env, serverName, calendarId);
+    const { events, nextSyncToken, fullSync } = await this.listCalendarChanges(
+      calendarId,
+      syncToken ?? undefined
+    );
+    await putToolSyncToken(this.env, serverName, calendarId, nextSyncToken);
+
+    if (fullSync) {
+      // A full sync is a baseline, not a delta; listing every event would be noise
+      return {
+        calendarId,
+        fullSync: true,
+        reason: syncToken ? "sync token expired" : "first sync",
+        eventCount: events.filter((e) => e.status !== "cancelled").length,
+      };
+    }
+    return {
+      calendarId,
+      fullSync: false,
+      ...classifyCalendarChanges(events),
+    };
+  }
+
+  async startCalendarWatch(serverName: string, calendarId = "primary") {
+    const address = this.env.GOOGLE_CALENDAR_WEBHOOK_URL;
+    if (!address)
+      throw new Error("Missing GOOGLE_CALENDAR_WEBHOOK_URL env var");
+
+    // save a sync token first so notifications only report later changes
+    const { nextSyncToken } = await this.listCalendarChanges(calendarId);
+    await putCalendarSyncToken(this.env, serverName, calendarId, nextSyncToken);
+
+    const channelId = crypto.randomUUID();
+    // Google echoes this back in X-Goog-Channel-Token on every notification
+    const token = Array.from(crypto.getRandomValues(new Uint8Array(32)), (b) =>
+      b.toString(16).padStart(2, "0")
+    ).join("");
+    const resp = await this.makeRequest<{
+      id: string;
+      resourceId: string;
+      expiration?: string;
+    }>(`${this.calendarEventsUrl(calendarId)}/watch`, {
+      method: "POST",
+      body: JSON.stringify({
+        id: channelId,
+        type: "web_hook",
+        address,
+        token,
+      }),
+    });
+    await putCalendarChannel(this.env, channelId, {
+      serverName,
+      calendarId,
+      token,
+      resourceId: resp.resourceId,
+      expiration: resp.expiration,
+    });
+    return {
+      channelId,
+      resourceId: resp.resourceId,
+      expiration: resp.expiration
+        ? new Date(Number(resp.expiration)).toISOString()
+        : undefined,
+    };
   }
 
   /* ------------------------- Gmail ------------------------ */
   // Build a Gmail search query from inputs
   private buildQuery(
-    startDate: string,
-    endDate: string,
+    startDate?: string,
+    endDate?: string,
     fromAddress?: string,
     toAddress?: string,
     freeText?: string
   ): string {
     const parts: string[] = [];
     // Gmail supports unix epoch seconds for after/before
-    const startEpoch = Math.floor(new Date(startDate).getTime() / 1000);
-    const endEpoch = Math.floor(new Date(endDate).getTime() / 1000);
+    const startEpoch = Math.floor(new Date(startDate ?? "").getTime() / 1000);
+    const endEpoch = Math.floor(new Date(endDate ?? "").getTime() / 1000);
     if (!Number.isNaN(startEpoch)) parts.push(`after:${startEpoch}`);
     if (!Number.isNaN(endEpoch)) parts.push(`before:${endEpoch}`);
     if (fromAddress) parts.push(`from:${fromAddress}`);
@@ -160,24 +1344,120 @@ export class GoogleService {
     return parts.join(" ").trim();
   }
 
+  // messages.list / threads.list URL for a folder plus a search query
+  private async searchUrl(
+    resource: "messages" | "threads",
+    folder: string,
+    q: string,
+    maxResults: number,
+    pageToken?: string
+  ) {
+    // The legacy folder names map to system labels; anything else is a label name or ID
+    const key = folder.toLowerCase();
+    const label =
+      key in FOLDER_LABELS
+        ? FOLDER_LABELS[key]
+        : (await this.resolveLabelIds([folder]))[0];
+
+    const url = new URL(`${this.gmailBase}/users/${this.userId}/${resource}`);
+    if (q) url.searchParams.set("q", q);
+    if (label) url.searchParams.set("labelIds", label);
+    if (key === "archive") {
+      // archived -> exclude INBOX
+      url.searchParams.set("q", `${q} -label:INBOX`.trim());
+    }
+    url.searchParams.set("maxResults", String(maxResults));
+    if (pageToken) url.searchParams.set("pageToken", pageToken);
+    return url.toString();
+  }
+
+  // Gmail search has no threadId operator, so match the thread's Message-IDs instead
+  private async threadQuery(threadId: string) {
+    const thread = await this.makeRequest<any>(
+      this.threadUrl(threadId, "metadata")
+    );
+    const ids = (thread.messages ?? [])
+      .map((m: any) =>
+        m.payload?.headers
+          ?.find((h: any) => h.name?.toLowerCase() === "message-id")
+          ?.value?.replace(/^<|>$/g, "")
+      )
+      .filter(Boolean);
+    if (!ids.length) throw new Error(`Thread ${threadId} has no messages`);
+    // newest last in a thread; keep those if a thread somehow runs over
+    return `{${ids
+      .slice(-THREAD_QUERY_MAX_IDS)
+      .map((id: string) => `rfc822msgid:${id}`)
+      .join(" ")}}`;
+  }
+
   async searchEmails(
-    folder: "inbox" | "sentitems" | "drafts" | "archive",
+    folder: string,
     startDate: string,
     endDate: string,
     fromAddress?: string,
     toAddress?: string,
-    _conversationId?: string,
-    query?: string
+    conversationId?: string,
+    query?: string,
+    {
+      format = "raw",
+      maxResults = 50,
+      pageToken,
+    }: { format?: EmailFormat; maxResults?: number; pageToken?: string } = {}
   ) {
-    // Map Google folders to Gmail labels
-    const labelMap: Record<string, string | undefined> = {
-      inbox: "INBOX",
-      sentitems: "SENT",
-      drafts: "DRAFT",
-      archive: undefined, // archive == not INBOX
+    const q = [
+      conversationId ? await this.threadQuery(conversationId) : "",
+      this.buildQuery(startDate, endDate, fromAddress, toAddress, query),
+    ]
+      .join(" ")
+      .trim();
+    const list = await this.makeRequest<{
+      messages?: { id: string; threadId: string }[];
+      nextPageToken?: string;
+      resultSizeEstimate?: number;
+    }>(await this.searchUrl("messages", folder, q, maxResults, pageToken));
+    // a Message-ID can also turn up in copies filed under other threads
+    const messages = (list.messages ?? []).filter(
+      (m) => !conversationId || m.threadId === conversationId
+    );
+    // Fetch every message in the requested format in one batch
+    const fetched = await this.gmailBatch<any>(
+      messages.map((m) => ({ method: "GET", url: this.emailUrl(m.id, format) }))
+    );
+    const emails: any[] = [];
+    const errors: { id: string; status: number; error?: string }[] = [];
+    fetched.forEach((result, i) => {
+      if (batchOk(result)) emails.push(presentEmail(result.body, format));
+      else errors.push({ id: messages[i].id, ...result });
+    });
+    return {
+      emails,
+      errors: errors.length ? errors : undefined,
+      nextPageToken: list.nextPageToken,
+      resultSizeEstimate: list.resultSizeEstimate,
     };
-    const label = labelMap[folder.toLowerCase()];
+  }
 
+  async searchThreads(
+    folder: string,
+    {
+      startDate,
+      endDate,
+      fromAddress,
+      toAddress,
+      query,
+      maxResults = 25,
+      pageToken,
+    }: {
+      startDate?: string;
+      endDate?: string;
+      fromAddress?: string;
+      toAddress?: string;
+      query?: string;
+      maxResults?: number;
+      pageToken?: string;
+    } = {}
+  ) {
     const q = this.buildQuery(
       startDate,
       endDate,
@@ -185,32 +1465,193 @@ export class GoogleService {
       toAddress,
       query
     );
-    const url = new URL(`${this.gmailBase}/users/${this.userId}/messages`);
-    if (q) url.searchParams.set("q", q);
-    if (label) url.searchParams.set("labelIds", label);
-    if (folder === "archive") {
-      // archived -> exclude INBOX
-      url.searchParams.set("q", `${q} -label:INBOX`.trim());
-    }
-    url.searchParams.set("maxResults", "50");
-
     const list = await this.makeRequest<{
-      messages?: { id: string; threadId: string }[];
-    }>(url.toString());
-    const messages = list.messages ?? [];
-    // Fetch full metadata for each message
-    const results = await Promise.all(messages.map((m) => this.getEmail(m.id)));
-    return results;
+      threads?: { id: string }[];
+      nextPageToken?: string;
+      resultSizeEstimate?: number;
+    }>(await this.searchUrl("threads", folder, q, maxResults, pageToken));
+    const found = list.threads ?? [];
+    const fetched = await this.gmailBatch<any>(
+      found.map((t) => ({
+        method: "GET",
+        url: this.threadUrl(t.id, "metadata"),
+      }))
+    );
+    const threads: any[] = [];
+    const errors: { id: string; status: number; error?: string }[] = [];
+    fetched.forEach((result, i) => {
+      if (batchOk(result)) threads.push(summarizeThread(result.body));
+      else errors.push({ id: found[i].id, ...result });
+    });
+    return {
+      threads,
+      errors: errors.length ? errors : undefined,
+      nextPageToken: list.nextPageToken,
+      resultSizeEstimate: list.resultSizeEstimate,
+    };
   }
 
-  async getEmail(messageId: string) {
+  // Message or thread URL asking for the parts a format needs
+  private formatUrl(
+    resource: "messages" | "threads",
+    id: string,
+    format: EmailFormat
+  ) {
     const url = new URL(
-      `${this.gmailBase}/users/${this.userId}/messages/${encodeURIComponent(
-        messageId
+      `${this.gmailBase}/users/${this.userId}/${resource}/${encodeURIComponent(
+        id
       )}`
     );
-    url.searchParams.set("format", "full");
-    return this.makeRequest<any>(url.toString());
+    if (format === "metadata") {
+      url.searchParams.set("format", "metadata");
+      for (const name of METADATA_HEADERS)
+        url.searchParams.append("metadataHeaders", name);
+    } else url.searchParams.set("format", "full");
+    return url.toString();
+  }
+
+  private emailUrl(messageId: string, format: EmailFormat) {
+    return this.formatUrl("messages", messageId, format);
+  }
+
+  private threadUrl(threadId: string, format: EmailFormat) {
+    return this.formatUrl("threads", threadId, format);
+  }
+
+  async getEmail(messageId: string, format: EmailFormat = "raw") {
+    const message = await this.makeRequest<any>(
+      this.emailUrl(messageId, format)
+    );
+    return presentEmail(message, format);
+  }
+
+  async getThread(threadId: string, format: EmailFormat = "full") {
+    const thread = await this.makeRequest<any>(
+      this.threadUrl(threadId, format)
+    );
+    return presentThread(thread, format);
+  }
+
+  // Look the part up by partId (stable) or attachmentId (changes per fetch)
+  private async fetchAttachmentPart(
+    messageId: string,
+    ref: { partId?: string; attachmentId?: string },
+    maxBytes: number,
+    loaded?: any // the message, when the caller already fetched it
+  ): Promise<{ part: any; bytes: Uint8Array }> {
+    if (!ref.partId && !ref.attachmentId)
+      throw new Error("Provide partId or attachmentId");
+    const message = loaded ?? (await this.getEmail(messageId));
+    const part = findPart(message.payload, (p) =>
+      ref.partId
+        ? p.partId === ref.partId
+        : p.body?.attachmentId === ref.attachmentId
+    );
+    if (!part && ref.partId)
+      throw new Error(`No part ${ref.partId} in message ${messageId}`);
+
+    const tooBig = (size: number) =>
+      new Error(
+        `Attachment is ${size} bytes, over the ${maxBytes} byte limit; raise maxBytes to download it`
+      );
+    if ((part?.body?.size ?? 0) > maxBytes) throw tooBig(part.body.size);
+
+    // Small parts come inline in the message; larger ones need a second call
+    let data: string | undefined = part?.body?.data;
+    if (!data) {
+      const attachmentId = part?.body?.attachmentId ?? ref.attachmentId;
+      const res = await this.makeRequest<{ size: number; data: string }>(
+        `${this.gmailBase}/users/${this.userId}/messages/${encodeURIComponent(
+          messageId
+        )}/attachments/${encodeURIComponent(attachmentId)}`
+      );
+      data = res.data;
+    }
+    const bytes = base64UrlToBytes(data ?? "");
+    if (bytes.length > maxBytes) throw tooBig(bytes.length);
+    return { part, bytes };
+  }
+
+  async getEmailAttachment(
+    messageId: string,
+    ref: { partId?: string; attachmentId?: string },
+    maxBytes = DEFAULT_ATTACHMENT_MAX_BYTES
+  ) {
+    const { part, bytes } = await this.fetchAttachmentPart(
+      messageId,
+      ref,
+      maxBytes
+    );
+    const contentType =
+      part?.headers?.find((h: any) => h.name?.toLowerCase() === "content-type")
+        ?.value ?? "";
+    const mimeType: string = part?.mimeType ?? "application/octet-stream";
+    const info = {
+      messageId,
+      partId: part?.partId as string | undefined,
+      filename: (part?.filename as string | undefined) || "attachment",
+      mimeType,
+      size: bytes.length,
+    };
+    if (isTextMimeType(mimeType))
+      return { ...info, text: decodeText(bytes, contentType) };
+    return { ...info, base64: bytesToBase64(bytes) };
+  }
+
+  // Turn attachment inputs into bytes, fetching referenced parts from Gmail
+  private async resolveAttachments(
+    inputs: EmailAttachmentInput[] = []
+  ): Promise<MimeAttachment[]> {
+    const resolved: MimeAttachment[] = [];
+    // several parts of one message only need one message fetch
+    const messages = new Map<string, Promise<any>>();
+    const loadMessage = (id: string) => {
+      if (!messages.has(id)) messages.set(id, this.getEmail(id));
+      return messages.get(id);
+    };
+    let total = 0;
+    for (const input of inputs) {
+      let attachment: MimeAttachment;
+      if ("contentBase64" in input) {
+        let content: Uint8Array;
+        try {
+          content = base64UrlToBytes(input.contentBase64.replace(/\s+/g, ""));
+        } catch {
+          throw new Error(
+            `Attachment "${input.filename}" is not valid base64 content`
+          );
+        }
+        attachment = {
+          filename: input.filename,
+          mimeType: input.mimeType ?? "application/octet-stream",
+          content,
+        };
+      } else {
+        const { part, bytes } = await this.fetchAttachmentPart(
+          input.messageId,
+          input,
+          GMAIL_MAX_MESSAGE_BYTES,
+          await loadMessage(input.messageId)
+        );
+        attachment = {
+          filename: input.filename ?? (part?.filename || "attachment"),
+          mimeType:
+            input.mimeType ?? part?.mimeType ?? "application/octet-stream",
+          content: bytes,
+        };
+      }
+      if (input.contentId) {
+        attachment.contentId = input.contentId;
+        attachment.inline = true;
+      }
+      total += attachment.content.length;
+      if (total > GMAIL_MAX_MESSAGE_BYTES)
+        throw new Error(
+          `Attachments total more than ${GMAIL_MAX_MESSAGE_BYTES} bytes, Gmail's message size limit`
+        );
+      resolved.push(attachment);
+    }
+    return resolved;
   }
 
   async markEmailAsRead(messageId: string) {
@@ -234,10 +1675,437 @@ export class GoogleService {
     return res;
   }
 
-  // Build a simple RFC 2822 plaintext email and return base64url-encoded string
+  // IDs as given (deduplicated), or every match of a search query, up to limit
+  private async collectMessageIds(
+    target: { ids?: string[]; query?: string },
+    limit: number
+  ) {
+    if (target.ids?.length && target.query)
+      throw new Error("Provide either emailIds or query, not both");
+    if (target.ids?.length) {
+      const ids = [...new Set(target.ids)];
+      if (ids.length > limit)
+        throw new Error(
+          `${ids.length} emails given, over the limit of ${limit} per call`
+        );
+      return { ids, moreMatched: false };
+    }
+    if (!target.query) throw new Error("Provide emailIds or query");
+
+    const ids: string[] = [];
+    let pageToken: string | undefined;
+    do {
+      const url = new URL(`${this.gmailBase}/users/${this.userId}/messages`);
+      url.searchParams.set("q", target.query);
+      url.searchParams.set("maxResults", String(Math.min(limit + 1, 500)));
+      if (pageToken) url.searchParams.set("pageToken", pageToken);
+      const page = await this.makeRequest<{
+        messages?: { id: string }[];
+        nextPageToken?: string;
+      }>(url.toString());
+      ids.push(...(page.messages ?? []).map((m) => m.id));
+      pageToken = page.nextPageToken;
+    } while (pageToken && ids.length <= limit);
+    return {
+      ids: ids.slice(0, limit),
+      moreMatched: ids.length > limit || Boolean(pageToken),
+    };
+  }
+
+  /**
+   * Add/remove labels on many emails with one batchModify. Current labels are
+   * read first so the result names exactly the emails whose labels changed.
+   */
+  async bulkModifyEmails(
+    target: { ids?: string[]; query?: string },
+    addLabels: string[] = [],
+    removeLabels: string[] = [],
+    { dryRun = false, limit = 100 }: { dryRun?: boolean; limit?: number } = {}
+  ) {
+    if (limit > BULK_MAX_MESSAGES)
+      throw new Error(`limit cannot exceed ${BULK_MAX_MESSAGES}`);
+    const addLabelIds = await this.resolveLabelIds(addLabels);
+    const removeLabelIds = await this.resolveLabelIds(removeLabels);
+    const { ids, moreMatched } = await this.collectMessageIds(target, limit);
+
+    const current = await this.gmailBatch<{ labelIds?: string[] }>(
+      ids.map((id) => ({
+        method: "GET",
+        url: `${this.gmailBase}/users/${this.userId}/messages/${encodeURIComponent(
+          id
+        )}?format=minimal`,
+      }))
+    );
+    const toChange: string[] = [];
+    const unchanged: string[] = [];
+    const failed: { id: string; status: number; error?: string }[] = [];
+    current.forEach((result, i) => {
+      if (!batchOk(result)) {
+        failed.push({ id: ids[i], status: result.status, error: result.error });
+        return;
+      }
+      const labels = new Set(result.body?.labelIds ?? []);
+      const differs =
+        addLabelIds.some((l) => !labels.has(l)) ||
+        removeLabelIds.some((l) => labels.has(l));
+      (differs ? toChange : unchanged).push(ids[i]);
+    });
+
+    if (!dryRun && toChange.length) {
+      await this.makeRequest<void>(
+        `${this.gmailBase}/users/${this.userId}/messages/batchModify`,
+        {
+          method: "POST",
+          body: JSON.stringify({ ids: toChange, addLabelIds, removeLabelIds }),
+        }
+      );
+    }
+    return {
+      dryRun,
+      matched: ids.length,
+      moreMatched,
+      changed: dryRun ? [] : toChange,
+      wouldChange: dryRun ? toChange : undefined,
+      unchanged,
+      failed: failed.length ? failed : undefined,
+    };
+  }
+
+  // Labels may be given by name or ID
+  async modifyThread(
+    threadId: string,
+    addLabels: string[] = [],
+    removeLabels: string[] = []
+  ) {
+    const url = `${this.gmailBase}/users/${
+      this.userId
+    }/threads/${encodeURIComponent(threadId)}/modify`;
+    const thread = await this.makeRequest<any>(url, {
+      method: "POST",
+      body: JSON.stringify({
+        addLabelIds: await this.resolveLabelIds(addLabels),
+        removeLabelIds: await this.resolveLabelIds(removeLabels),
+      }),
+    });
+    // modify only returns ids and labels for each message
+    return {
+      id: thread.id,
+      messages: (thread.messages ?? []).map((m: any) => ({
+        id: m.id,
+        labels: m.labelIds ?? [],
+      })),
+    };
+  }
+
+  markThreadAsRead(threadId: string) {
+    return this.modifyThread(threadId, [], ["UNREAD"]);
+  }
+
+  archiveThread(threadId: string) {
+    return this.modifyThread(threadId, [], ["INBOX"]);
+  }
+
+  async listLabels(): Promise<GmailLabel[]> {
+    if (!this.labelCache) {
+      const res = await this.makeRequest<{ labels?: GmailLabel[] }>(
+        `${this.gmailBase}/users/${this.userId}/labels`
+      );
+      this.labelCache = (res.labels ?? []).sort(
+        (a, b) => a.type.localeCompare(b.type) || a.name.localeCompare(b.name)
+      );
+    }
+    return this.labelCache;
+  }
+
+  private async findLabel(nameOrId: string) {
+    return matchLabel(await this.listLabels(), nameOrId);
+  }
+
+  // One labels.list for the whole set, even on a cold cache
+  private async resolveLabelIds(namesOrIds: string[] = []) {
+    if (!namesOrIds.length) return [];
+    const labels = await this.listLabels();
+    return namesOrIds.map((l) => matchLabel(labels, l).id);
+  }
+
+  async createLabel(
+    name: string,
+    {
+      messageListVisibility,
+      labelListVisibility,
+    }: Pick<GmailLabel, "messageListVisibility" | "labelListVisibility"> = {}
+  ) {
+    const label = await this.makeRequest<GmailLabel>(
+      `${this.gmailBase}/users/${this.userId}/labels`,
+      {
+        method: "POST",
+        body: JSON.stringify({
+          name,
+          messageListVisibility,
+          labelListVisibility,
+        }),
+      }
+    );
+    this.labelCache = undefined;
+    return label;
+  }
+
+  // Gmail keeps nesting in the name ("Parent/Child"), so nested labels are renamed along with the parent
+  async renameLabel(nameOrId: string, newName: string) {
+    const label = await this.findLabel(nameOrId);
+    if (label.type === "system")
+      throw new Error(`System label ${label.name} cannot be renamed`);
+    const children = (await this.listLabels()).filter((l) =>
+      l.name.startsWith(`${label.name}/`)
+    );
+    const rename = (l: GmailLabel, name: string) =>
+      this.makeRequest<GmailLabel>(
+        `${this.gmailBase}/users/${this.userId}/labels/${encodeURIComponent(
+          l.id
+        )}`,
+        { method: "PATCH", body: JSON.stringify({ name }) }
+      );
+    const renamed = await rename(label, newName);
+    for (const child of children)
+      await rename(child, newName + child.name.slice(label.name.length));
+    this.labelCache = undefined;
+    return { ...renamed, renamedChildren: children.length };
+  }
+
+  // Removes the label from every message; the messages themselves stay
+  async deleteLabel(nameOrId: string) {
+    const label = await this.findLabel(nameOrId);
+    if (label.type === "system")
+      throw new Error(`System label ${label.name} cannot be deleted`);
+    await this.makeRequest<void>(
+      `${this.gmailBase}/users/${this.userId}/labels/${encodeURIComponent(
+        label.id
+      )}`,
+      { method: "DELETE" }
+    );
+    this.labelCache = undefined;
+    return { id: label.id, name: label.name };
+  }
+
+  // Labels may be given by name or ID
+  async modifyEmailLabels(
+    messageId: string,
+    addLabels: string[] = [],
+    removeLabels: string[] = []
+  ) {
+    const url = `${this.gmailBase}/users/${
+      this.userId
+    }/messages/${encodeURIComponent(messageId)}/modify`;
+    const message = await this.makeRequest<any>(url, {
+      method: "POST",
+      body: JSON.stringify({
+        addLabelIds: await this.resolveLabelIds(addLabels),
+        removeLabelIds: await this.resolveLabelIds(removeLabels),
+      }),
+    });
+    return {
+      id: message.id,
+      threadId: message.threadId,
+      labels: message.labelIds ?? [],
+    };
+  }
+
+  private filtersUrl(filterId?: string) {
+    const base = `${this.gmailBase}/users/${this.userId}/settings/filters`;
+    return filterId ? `${base}/${encodeURIComponent(filterId)}` : base;
+  }
+
+  private async labelNames() {
+    return new Map((await this.listLabels()).map((l) => [l.id, l.name]));
+  }
+
+  async listFilters() {
+    const [res, names] = await Promise.all([
+      this.makeRequest<{ filter?: any[] }>(this.filtersUrl()),
+      this.labelNames(),
+    ]);
+    return (res.filter ?? []).map((f) => presentFilter(f, names));
+  }
+
+  // Filters only act on mail that arrives later; this shows what recent mail the criteria match
+  async previewFilter(criteria: FilterCriteria, maxResults = 20) {
+    const query = criteriaToQuery(validateCriteria(criteria));
+    const { emails, nextPageToken } = await this.searchEmails(
+      "all",
+      "",
+      "",
+      undefined,
+      undefined,
+      undefined,
+      query,
+      { format: "metadata", maxResults }
+    );
+    return { query, matches: emails, moreMatches: Boolean(nextPageToken) };
+  }
+
+  async createFilter(
+    criteria: FilterCriteria,
+    action: FilterAction,
+    dryRun = false
+  ) {
+    validateCriteria(criteria);
+    const { add, remove } = filterLabelChanges(action);
+    if (!add.length && !remove.length && !action.forward)
+      throw new Error("A filter needs at least one action");
+    // resolve before the dry run too, so unknown labels are reported either way
+    const addLabelIds = await this.resolveLabelIds(add);
+    const removeLabelIds = await this.resolveLabelIds(remove);
+    if (dryRun) {
+      const preview = await this.previewFilter(criteria);
+      return {
+        dryRun: true,
+        ...preview,
+        action: {
+          addLabels: add,
+          removeLabels: remove,
+          forward: action.forward,
+        },
+      };
+    }
+    const created = await this.makeRequest<any>(this.filtersUrl(), {
+      method: "POST",
+      body: JSON.stringify({
+        criteria,
+        action: { addLabelIds, removeLabelIds, forward: action.forward },
+      }),
+    });
+    return presentFilter(created, await this.labelNames());
+  }
+
+  async deleteFilter(filterId: string) {
+    await this.makeRequest<void>(this.filtersUrl(filterId), {
+      method: "DELETE",
+    });
+  }
+
+  private vacationUrl() {
+    return `${this.gmailBase}/users/${this.userId}/settings/vacation`;
+  }
+
+  async getVacationResponder(timeZone?: string) {
+    const settings = await this.makeRequest<any>(this.vacationUrl());
+    return presentVacation(settings, timeZone);
+  }
+
+  /**
+   * Only the given fields change. Dates may be whole days ("YYYY-MM-DD",
+   * endDate inclusive, read in timeZone or the primary calendar's zone) or
+   * instants with an offset.
+   */
+  async updateVacationResponder(
+    input: VacationInput,
+    { outOfOfficeEvent = false }: { outOfOfficeEvent?: boolean } = {}
+  ) {
+    const { startDate, endDate } = input;
+    // checked before the zone lookup so bad input costs no API call
+    for (const value of [startDate, endDate])
+      if (
+        value &&
+        (Number.isNaN(Date.parse(value)) ||
+          (!isDateOnly(value) && !hasOffset(value)))
+      )
+        throw new Error(
+          `Vacation date "${value}" must be YYYY-MM-DD or ISO 8601 with an offset`
+        );
+    const needsZone = [startDate, endDate].some((d) => d && isDateOnly(d));
+    if (input.timeZone && !isValidTimeZone(input.timeZone))
+      throw new Error(`Invalid time zone: ${input.timeZone}`);
+    const timeZone =
+      input.timeZone ??
+      (needsZone || outOfOfficeEvent
+        ? await this.calendarTimeZone("primary")
+        : undefined) ??
+      "UTC";
+    const startMs = (value: string) =>
+      isDateOnly(value)
+        ? zonedTimeToUtc(value, "00:00", timeZone).getTime()
+        : Date.parse(value);
+    const endMs = (value: string) =>
+      isDateOnly(value)
+        ? zonedTimeToUtc(addDays(value, 1), "00:00", timeZone).getTime()
+        : Date.parse(value);
+
+    const current = await this.makeRequest<any>(this.vacationUrl());
+    const next = { ...current, enableAutoReply: input.enabled };
+    if (input.subject !== undefined) next.responseSubject = input.subject;
+    if (input.body !== undefined) next.responseBodyPlainText = input.body;
+    if (input.htmlBody !== undefined) next.responseBodyHtml = input.htmlBody;
+    if (input.restrictToContacts !== undefined)
+      next.restrictToContacts = input.restrictToContacts;
+    if (input.restrictToDomain !== undefined)
+      next.restrictToDomain = input.restrictToDomain;
+    if (startDate !== undefined)
+      next.startTime = startDate ? String(startMs(startDate)) : undefined;
+    if (endDate !== undefined)
+      next.endTime = endDate ? String(endMs(endDate)) : undefined;
+    if (
+      next.startTime &&
+      next.endTime &&
+      Number(next.endTime) <= Number(next.startTime)
+    )
+      throw new Error("Vacation endDate must be after startDate");
+
+    if (outOfOfficeEvent && (!next.startTime || !next.endTime))
+      throw new Error(
+        "An Out of office event needs both startDate and endDate"
+      );
+
+    const saved = await this.makeRequest<any>(this.vacationUrl(), {
+      method: "PUT",
+      body: JSON.stringify(next),
+    });
+
+    let event: any;
+    if (outOfOfficeEvent) {
+      // all-day dates in the calendar's zone; Google's end date is exclusive
+      const firstDay = toZonedDate(new Date(Number(next.startTime)), timeZone);
+      const lastDay = toZonedDate(new Date(Number(next.endTime) - 1), timeZone);
+      event = await this.createCalendarEvent(
+        {
+          subject: "Out of office",
+          startDate: firstDay,
+          endDate: addDays(lastDay, 1),
+          isAllDay: true,
+          timeZone,
+        },
+        "primary"
+      );
+    }
+    return {
+      vacation: presentVacation(saved, timeZone),
+      event,
+    };
+  }
+
+  // The account's address and its send-as aliases, which replies leave out
+  private async selfAddresses(): Promise<EmailAddress[]> {
+    const profile = await this.makeRequest<{ emailAddress: string }>(
+      `${this.gmailBase}/users/${this.userId}/profile`
+    );
+    const self: EmailAddress[] = [{ email: profile.emailAddress }];
+    try {
+      const res = await this.makeRequest<{
+        sendAs?: { sendAsEmail: string }[];
+      }>(`${this.gmailBase}/users/${this.userId}/settings/sendAs`);
+      for (const alias of res.sendAs ?? [])
+        self.push({ email: alias.sendAsEmail });
+    } catch {
+      // aliases are a refinement; the primary address is enough to go on
+    }
+    return self;
+  }
+
+  // Build an RFC 2822 email (multipart when there is HTML or attachments) and return it base64url-encoded
   private buildRawEmail({
     subject,
     body,
+    htmlBody,
+    attachments,
     toRecipients,
     ccRecipients,
     bccRecipients,
@@ -246,45 +2114,63 @@ export class GoogleService {
     threadId,
   }: {
     subject: string;
-    body: string;
-    toRecipients: string[];
-    ccRecipients?: string[];
-    bccRecipients?: string[];
+    body?: string;
+    htmlBody?: string;
+    attachments?: MimeAttachment[];
+    toRecipients: (string | EmailAddress)[];
+    ccRecipients?: (string | EmailAddress)[];
+    bccRecipients?: (string | EmailAddress)[];
     inReplyTo?: string;
     references?: string;
     threadId?: string;
   }) {
     const headers: string[] = [];
-    headers.push(`To: ${toRecipients.join(", ")}`);
-    if (ccRecipients && ccRecipients.length)
-      headers.push(`Cc: ${ccRecipients.join(", ")}`);
-    if (bccRecipients && bccRecipients.length)
-      headers.push(`Bcc: ${bccRecipients.join(", ")}`);
-    headers.push(`Subject: ${subject}`);
-    headers.push('Content-Type: text/plain; charset="UTF-8"');
-    headers.push("Content-Transfer-Encoding: 7bit");
-    if (inReplyTo) headers.push(`In-Reply-To: ${inReplyTo}`);
-    if (references) headers.push(`References: ${references}`);
+    const addressHeader = (
+      name: string,
+      recipients?: (string | EmailAddress)[]
+    ) => {
+      const addresses = toAddresses(recipients);
+      if (addresses.length)
+        headers.push(`${name}: ${formatAddressList(addresses)}`);
+    };
+    addressHeader("To", toRecipients);
+    addressHeader("Cc", ccRecipients);
+    addressHeader("Bcc", bccRecipients);
+    headers.push(
+      `Subject: ${encodeHeaderValue(assertHeaderSafe("Subject", subject))}`
+    );
+    if (inReplyTo)
+      headers.push(
+        `In-Reply-To: ${assertHeaderSafe("In-Reply-To", inReplyTo)}`
+      );
+    if (references)
+      headers.push(`References: ${assertHeaderSafe("References", references)}`);
     // Gmail will set From based on the authenticated user
-    const mime = `${headers.join("\r\n")}\r\n\r\n${body}`;
-    // base64url
-    const b64 = btoa(unescape(encodeURIComponent(mime)))
-      .replace(/\+/g, "-")
-      .replace(/\//g, "_")
-      .replace(/=+$/, "");
-    return { raw: b64, threadId };
+    const mime = buildMimeMessage({
+      headers,
+      // plaintext fallback for clients that don't render HTML
+      text: body ?? (htmlBody !== undefined ? htmlToText(htmlBody) : ""),
+      html: htmlBody,
+      attachments,
+    });
+    return { raw: bytesToBase64Url(new TextEncoder().encode(mime)), threadId };
   }
 
   async draftEmail(
     subject: string,
-    body: string,
+    body: string | undefined,
     toRecipients: string[],
     ccRecipients?: string[],
-    bccRecipients?: string[]
+    bccRecipients?: string[],
+    { htmlBody, attachments }: EmailContentOptions = {}
   ) {
+    if (body === undefined && htmlBody === undefined)
+      throw new Error("Provide body, htmlBody or both");
     const message = this.buildRawEmail({
       subject,
       body,
+      htmlBody,
+      attachments: await this.resolveAttachments(attachments),
       toRecipients,
       ccRecipients,
       bccRecipients,
@@ -300,29 +2186,118 @@ export class GoogleService {
   async createReplyDraft(
     originalEmailId: string,
     replyAll = false,
-    body?: string
+    body?: string,
+    { htmlBody, attachments }: EmailContentOptions = {}
+  ) {
+    const [original, self] = await Promise.all([
+      this.getEmail(originalEmailId),
+      this.selfAddresses(),
+    ]);
+    const headers = headerMap(original.payload);
+    const { to, cc } = replyRecipients(
+      {
+        from: headers.get("from"),
+        to: headers.get("to"),
+        cc: headers.get("cc"),
+        replyTo: headers.get("reply-to"),
+      },
+      self,
+      replyAll
+    );
+
+    const msg = this.buildRawEmail({
+      subject: replySubject(decodeHeaderValue(headers.get("subject") || "")),
+      body: body ?? (htmlBody === undefined ? "" : undefined),
+      htmlBody,
+      attachments: await this.resolveAttachments(attachments),
+      toRecipients: to,
+      ccRecipients: cc,
+      ...threadingHeaders(original),
+    });
+    const url = `${this.gmailBase}/users/${this.userId}/drafts`;
+    return this.makeRequest<any>(url, {
+      method: "POST",
+      body: JSON.stringify({ message: msg }),
+    });
+  }
+
+  // Gmail-style forward: note, "Forwarded message" header block, original body and attachments
+  async createForwardDraft(
+    originalEmailId: string,
+    toRecipients: string[],
+    {
+      note,
+      ccRecipients,
+      bccRecipients,
+      includeAttachments = true,
+    }: {
+      note?: string;
+      ccRecipients?: string[];
+      bccRecipients?: string[];
+      includeAttachments?: boolean;
+    } = {}
   ) {
     const original = await this.getEmail(originalEmailId);
-    const headers = new Map<string, string>();
-    for (const h of original.payload?.headers ?? []) {
-      if (h.name && h.value) headers.set(h.name.toLowerCase(), h.value);
-    }
-    const toHeader = headers.get("from") || "";
-    const ccHeader = replyAll ? headers.get("to") || "" : "";
-    const ccList = ccHeader
-      ? ccHeader.split(",").map((s) => s.trim())
-      : undefined;
-    const inReplyTo = headers.get("message-id");
-    const references = headers.get("references") || inReplyTo;
+    const headers = headerMap(original.payload);
+    const subject = decodeHeaderValue(headers.get("subject") || "");
+    const block: [string, string | undefined][] = [
+      ["From", headers.get("from")],
+      ["Date", headers.get("date")],
+      ["Subject", subject],
+      ["To", headers.get("to")],
+      ["Cc", headers.get("cc")],
+    ];
+    const present = block.filter(([, v]) => v);
+    const divider = "---------- Forwarded message ---------";
+
+    const text = [
+      ...(note ? [note, ""] : []),
+      divider,
+      ...present.map(([k, v]) => `${k}: ${v}`),
+      "",
+      extractBodyText(original.payload),
+    ].join("\n");
+
+    const originalHtml = extractBodyHtml(original.payload);
+    const htmlBody =
+      originalHtml === undefined
+        ? undefined
+        : [
+            note
+              ? `<div>${escapeHtml(note).replace(/\n/g, "<br>")}</div><br>`
+              : "",
+            '<div class="gmail_quote">',
+            `${divider}<br>`,
+            ...present.map(([k, v]) => `${k}: ${escapeHtml(v as string)}<br>`),
+            "<br>",
+            originalHtml,
+            "</div>",
+          ].join("\n");
+
+    // inline images go along whenever the HTML does, or its cid: links break
+    const forwarded: EmailAttachmentInput[] = (
+      original.attachments as AttachmentInfo[]
+    )
+      .filter(
+        (a) =>
+          includeAttachments ||
+          (htmlBody !== undefined && a.inline && a.contentId)
+      )
+      .map((a) => ({
+        messageId: originalEmailId,
+        partId: a.partId,
+        contentId: a.inline ? a.contentId : undefined,
+      }));
 
     const msg = this.buildRawEmail({
-      subject: `Re: ${headers.get("subject") || ""}`,
-      body: body ?? "",
-      toRecipients: toHeader ? [toHeader] : [],
-      ccRecipients: ccList,
-      inReplyTo: inReplyTo ?? undefined,
-      references: references ?? undefined,
-      threadId: original.threadId,
+      subject: /^\s*fwd?\s*:/i.test(subject) ? subject : `Fwd: ${subject}`,
+      body: text,
+      htmlBody,
+      attachments: await this.resolveAttachments(forwarded),
+      toRecipients,
+      ccRecipients,
+      bccRecipients,
+      ...threadingHeaders(original),
     });
     const url = `${this.gmailBase}/users/${this.userId}/drafts`;
     return this.makeRequest<any>(url, {
@@ -331,64 +2306,148 @@ export class GoogleService {
     });
   }
 
+  // The draft's current attachments, so a rebuilt message can carry them over
+  private async draftAttachments(message: any): Promise<MimeAttachment[]> {
+    const attachments: MimeAttachment[] = [];
+    for (const info of collectAttachments(message.payload)) {
+      const { bytes } = await this.fetchAttachmentPart(
+        message.id,
+        info,
+        GMAIL_MAX_MESSAGE_BYTES,
+        message
+      );
+      attachments.push({
+        filename: info.filename || "attachment",
+        mimeType: info.mimeType,
+        content: bytes,
+        ...(info.contentId ? { contentId: info.contentId } : {}),
+        ...(info.inline ? { inline: true } : {}),
+      });
+    }
+    return attachments;
+  }
+
+  /**
+   * Change only the supplied fields of a draft. Everything else (recipients,
+   * body, HTML, attachments and threading headers) is read back from the
+   * current message. A new plain-text body without htmlBody drops the old
+   * HTML, which would otherwise still show the previous text.
+   */
   async updateEmailDraft(
     draftId: string,
     subject?: string,
     body?: string,
     toRecipients?: string[],
     ccRecipients?: string[],
-    bccRecipients?: string[]
+    bccRecipients?: string[],
+    { htmlBody, attachments }: EmailContentOptions = {}
   ) {
-    // Replace the draft's message with a rebuilt one
-    const existing = await this.makeRequest<any>(
-      `${this.gmailBase}/users/${this.userId}/drafts/${encodeURIComponent(
-        draftId
-      )}`
-    );
-    const headers = new Map<string, string>();
-    for (const h of existing.message?.payload?.headers ?? []) {
-      if (h.name && h.value) headers.set(h.name.toLowerCase(), h.value);
-    }
-    const subjectFinal = subject ?? headers.get("subject") ?? "";
-    const toFinal =
-      toRecipients ?? (headers.get("to") ? [headers.get("to") as string] : []);
-    const ccFinal =
-      ccRecipients ??
-      (headers.get("cc") ? [headers.get("cc") as string] : undefined);
-    const bccFinal =
-      bccRecipients ??
-      (headers.get("bcc") ? [headers.get("bcc") as string] : undefined);
-    const bodyFinal = body ?? "";
-    const msg = this.buildRawEmail({
-      subject: subjectFinal,
-      body: bodyFinal,
-      toRecipients: toFinal,
-      ccRecipients: ccFinal,
-      bccRecipients: bccFinal,
-      threadId: existing.message?.threadId,
-    });
-
     const url = `${this.gmailBase}/users/${
       this.userId
     }/drafts/${encodeURIComponent(draftId)}`;
+    const existing = await this.makeRequest<any>(`${url}?format=full`);
+    const message = existing.message ?? {};
+    const headers = headerMap(message.payload);
+
+    let text = body;
+    let html = htmlBody;
+    if (body === undefined && htmlBody === undefined) {
+      html = extractBodyHtml(message.payload);
+      text = extractBodyText(message.payload);
+    }
+
+    const msg = this.buildRawEmail({
+      subject: subject ?? decodeHeaderValue(headers.get("subject") ?? ""),
+      body: text,
+      htmlBody: html,
+      attachments:
+        attachments === undefined
+          ? await this.draftAttachments(message)
+          : await this.resolveAttachments(attachments),
+      toRecipients: toRecipients ?? parseAddressList(headers.get("to")),
+      ccRecipients: ccRecipients ?? parseAddressList(headers.get("cc")),
+      bccRecipients: bccRecipients ?? parseAddressList(headers.get("bcc")),
+      // keeps an edited reply in its thread
+      inReplyTo: headers.get("in-reply-to"),
+      references: headers.get("references"),
+      threadId: message.threadId,
+    });
+
     return this.makeRequest<any>(url, {
       method: "PUT",
       body: JSON.stringify({ id: draftId, message: msg }),
     });
   }
 
+  // Draft ID plus its current message; Gmail gives the draft a new message ID on every update
+  async getDraft(draftId: string) {
+    const url = new URL(
+      `${this.gmailBase}/users/${this.userId}/drafts/${encodeURIComponent(
+        draftId
+      )}`
+    );
+    url.searchParams.set("format", "metadata");
+    const draft = await this.makeRequest<any>(url.toString());
+    return {
+      id: draft.id as string,
+      message: presentEmail(draft.message ?? {}, "metadata"),
+    };
+  }
+
   async sendEmail(draftId: string) {
     const url = `${this.gmailBase}/users/${this.userId}/drafts/send`;
-    await this.makeRequest<void>(url, {
+    const sent = await this.makeRequest<any>(url, {
       method: "POST",
       body: JSON.stringify({ id: draftId }),
     });
+    return { id: sent?.id as string, threadId: sent?.threadId as string };
   }
 
+  // Trash, not delete: Gmail keeps trashed mail for 30 days
   async deleteEmail(messageId: string) {
-    await this.makeRequest<void>(
+    const message = await this.makeRequest<any>(
+      `${this.gmailBase}/users/${this.userId}/messages/${encodeURIComponent(
+        messageId
+      )}/trash`,
+      { method: "POST" }
+    );
+    return { id: message.id, labels: message.labelIds ?? [] };
+  }
+
+  async untrashEmail(messageId: string) {
+    const message = await this.makeRequest<any>(
       `${this.gmailBase}/users/${this.userId}/messages/${encodeURIComponent(
         messageId
+      )}/untrash`,
+      { method: "POST" }
+    );
+    return { id: message.id, labels: message.labelIds ?? [] };
+  }
+
+  // Irreversible; Google only allows it with the full https://mail.google.com/ scope
+  async permanentlyDeleteEmail(messageId: string) {
+    try {
+      await this.makeRequest<void>(
+        `${this.gmailBase}/users/${this.userId}/messages/${encodeURIComponent(
+          messageId
+        )}`,
+        { method: "DELETE" }
+      );
+    } catch (e) {
+      if (e instanceof GoogleApiError && e.status === 403)
+        throw new GoogleApiError(
+          `${e.message}\nPermanent deletion requires the https://mail.google.com/ scope; deleteEmail (trash) works without it`,
+          e.status
+        );
+      throw e;
+    }
+  }
+
+  // Drafts have no trash; deleting one discards it for good
+  async deleteDraft(draftId: string) {
+    await this.makeRequest<void>(
+      `${this.gmailBase}/users/${this.userId}/drafts/${encodeURIComponent(
+        draftId
       )}`,
       { method: "DELETE" }
     );
@@ -13,14 +13,38 @@ import type {
   WebhookResponse,
   WebhookProcessResponse,
   EmailProcessData,
+  CalendarProcessData,
   GoogleAuthContext,
 } from "../types";
-import { getServerCursor, putServerCursor } from "./lib/kv-helpers.ts";
-import { GoogleService } from "./GoogleService.ts";
+import {
+  getCalendarChannel,
+  getCalendarSyncToken,
+  getServerCursor,
+  putCalendarSyncToken,
+  putRefreshToken,
+  putServerCursor,
+} from "./lib/kv-helpers.ts";
+import { GoogleService, classifyCalendarChanges } from "./GoogleService.ts";
 
 // Export the GoogleMCP class so the Worker runtime can find it
 export { GoogleMCP };
 
+// Saved for scheduleSend (see docs/GOOGLE_SETUP.md); best effort, since the
+// tokens are already issued and a KV failure must not fail the exchange
+function keepRefreshToken(
+  env: Env,
+  ctx: Pick<ExecutionContext, "waitUntil">,
+  accessToken: string,
+  refreshToken: string,
+  expiresIn?: number
+) {
+  ctx.waitUntil(
+    putRefreshToken(env, accessToken, refreshToken, expiresIn).catch((err) =>
+      console.log("could not store refresh token:", err)
+    )
+  );
+}
+
 interface RegisteredClient {
   client_id: string;
   client_name: string;
@@ -174,6 +198,14 @@ export default new Hono<{ Bindings: Env }>()
               ? (body.scope as string)
               : undefined)
         );
+        if (result.refresh_token)
+          keepRefreshToken(
+            c.env,
+            c.executionCtx,
+            result.access_token,
+            result.refresh_token,
+            result.expires_in
+          );
         return c.json(result);
       } else if (body.grant_type === "refresh_token") {
         const result = await refreshGoogleAccessToken(
@@ -181,6 +213,14 @@ export default new Hono<{ Bindings: Env }>()
           c.env.GOOGLE_CLIENT_ID,
           c.env.GOOGLE_CLIENT_SECRET
         );
+        // Google rarely rotates the refresh token; keep the one the client sent
+        keepRefreshToken(
+          c.env,
+          c.executionCtx,
+          result.access_token,
+          result.refresh_token ?? (body.refresh_token as string),
+          result.expires_in
+        );
         return c.json(result);
       }
     } catch (err) {
@@ -415,6 +455,139 @@ export default new Hono<{ Bindings: Env }>()
             }
           })
       )
+      // Calendar watch channels post directly; the channel token we handed
+      // Google in startCalendarWatch stands in for request authentication
+      .post("/calendar-notify", async (c) => {
+        const channelId = c.req.header("x-goog-channel-id");
+        const channelToken = c.req.header("x-goog-channel-token");
+        const resourceState = c.req.header("x-goog-resource-state");
+        const messageNumber = c.req.header("x-goog-message-number");
+
+        if (!channelId || !resourceState) {
+          console.log("missing channel headers");
+          return c.json({ error: "missing channel headers" }, 400);
+        }
+
+        const channel = await getCalendarChannel(c.env, channelId);
+        if (!channel || channel.token !== channelToken) {
+          console.log("unknown channel or invalid channel token", channelId);
+          return c.json({ error: "invalid channel token" }, 401);
+        }
+        console.log("calendar notification", {
+          channelId,
+          resourceState,
+          messageNumber,
+        });
+
+        // "sync" is the handshake Google sends when the channel is created
+        if (resourceState === "sync") {
+          const response: WebhookResponse<CalendarProcessData> = {
+            reqResponseCode: 200,
+            reqResponseContent: "",
+            reqResponseContentType: "text",
+          };
+          return c.json(response, 200);
+        }
+
+        const response: WebhookResponse<CalendarProcessData> = {
+          reqResponseCode: 200,
+          reqResponseContent: "",
+          reqResponseContentType: "text",
+          processData: {
+            channelId,
+            calendarId: channel.calendarId,
+            resourceState,
+            messageNumber,
+          },
+        };
+        return c.json(response, 200);
+      })
+      .route(
+        "/calendar-notify/process",
+        new Hono<{
+          Bindings: Env;
+          Variables: { googleAuth: GoogleAuthContext };
+        }>()
+          .use(googleBearerTokenAuthMiddleware)
+          .post("/", async (c) => {
+            try {
+              const body = (await c.req.json()) as CalendarProcessData;
+              const { calendarId } = body;
+
+              const server = c.req.header("x-mcp-name");
+              if (!server) {
+                console.log("missing server name");
+                return c.json({ error: "missing server name" }, 400);
+              }
+
+              const syncToken = await getCalendarSyncToken(
+                c.env,
+                server,
+                calendarId
+              );
+              if (!syncToken) {
+                console.log("missing calendar sync token");
+                return c.json({ error: "missing calendar sync token" }, 400);
+              }
+
+              const { accessToken } = c.get("googleAuth");
+              const api = new GoogleService(c.env, accessToken);
+              const { events, nextSyncToken, fullSync } =
+                await api.listCalendarChanges(calendarId, syncToken);
+              await putCalendarSyncToken(
+                c.env,
+                server,
+                calendarId,
+                nextSyncToken
+              );
+
+              // An expired token means the deltas are gone; a full listing is not a change report
+              if (fullSync) {
+                console.log("calendar sync token expired, re-baselined");
+                const response: WebhookProcessResponse = {
+                  promptContent: `Google calendar ${calendarId} for ${server} was re-synced because its sync token expired; individual changes since the last notification are unavailable.`,
+                };
+                return c.json(response, 200);
+              }
+
+              if (events.length === 0) {
+                console.log("no calendar changes");
+                const response: WebhookProcessResponse = {
+                  promptContent: undefined,
+                };
+                return c.json(response, 200);
+              }
+              console.log(`${events.length} calendar changes`);
+
+              const respData = {
+                name: server,
+                calendarId,
+                ...classifyCalendarChanges(events),
+              };
+
+              const response: WebhookProcessResponse = {
+                promptContent: `Google calendar notification received:\n\n\`\`\`json\n${JSON.stringify(
+                  respData,
+                  null,
+                  2
+                )}\n\`\`\``,
+              };
+
+              return c.json(response, 200);
+            } catch (e) {
+              console.error("error processing calendar webhook process", e);
+              return c.json(
+                {
+                  error:
+                    e instanceof Error
+                      ? e.message
+                      : "Invalid calendar notification",
+                },
+                400
+              );
+            }
+          })
+      )
   )
 
   // Health check endpoint
@@ -0,0 +1,132 @@
+// Email address header parsing and formatting (To/Cc/From style lists)
+import { decodeHeaderValue, encodeHeaderValue } from "./mime";
+
+export type EmailAddress = {
+  name?: string;
+  email: string;
+};
+
+// Split on commas that sit outside quotes, angle brackets and comments
+function splitList(value: string): string[] {
+  const items: string[] = [];
+  let current = "";
+  let quoted = false;
+  let angle = 0;
+  let comment = 0;
+  for (let i = 0; i < value.length; i++) {
+    const ch = value[i];
+    if (ch === "\\" && quoted) {
+      current += ch + (value[++i] ?? "");
+      continue;
+    }
+    if (ch === '"' && !comment) quoted = !quoted;
+    else if (!quoted && ch === "<") angle++;
+    else if (!quoted && ch === ">") angle = Math.max(angle - 1, 0);
+    else if (!quoted && ch === "(") comment++;
+    else if (!quoted && ch === ")") comment = Math.max(comment - 1, 0);
+    if (ch === "," && !quoted && !angle && !comment) {
+      items.push(current);
+      current = "";
+    } else current += ch;
+  }
+  items.push(current);
+  return items.map((s) => s.trim()).filter(Boolean);
+}
+
+const unquote = (s: string) =>
+  s
+    .replace(/^"(.*)"$/s, "$1")
+    .replace(/\\(.)/g, "$1")
+    .trim();
+
+export function parseAddress(value: string): EmailAddress | undefined {
+  const text = value.trim();
+  if (!text) return undefined;
+  const angled = /^(.*)<([^<>]*)>\s*(\(.*\))?$/s.exec(text);
+  if (angled) {
+    const name = decodeHeaderValue(unquote(angled[1].trim()));
+    const email = angled[2].trim();
+    return name ? { name, email } : { email };
+  }
+  // bare address, optionally with an old-style "(Full Name)" comment
+  const commented = /^([^\s()]+)\s*\((.*)\)$/s.exec(text);
+  if (commented) return { name: commented[2].trim(), email: commented[1] };
+  return { email: text };
+}
+
+export function parseAddressList(value?: string): EmailAddress[] {
+  if (!value) return [];
+  return (
+    splitList(value)
+      // group syntax ("Team: a@x, b@y;" or "undisclosed-recipients:;") keeps only the members
+      .map((item) => item.replace(/^[^"<@]*:\s*/, "").replace(/;$/, ""))
+      .map(parseAddress)
+      .filter((a): a is EmailAddress => a !== undefined)
+  );
+}
+
+const ADDR_SPEC = /^[^\s@<>()",;:\\]+@[^\s@<>()",;:\\]+$/;
+
+export const isValidEmail = (email: string) => ADDR_SPEC.test(email);
+
+// RFC 5322 phrase: atoms as-is, specials quoted, non-ASCII as RFC 2047 encoded-words
+function formatDisplayName(name: string) {
+  if (!/^[\x20-\x7e]*$/.test(name)) return encodeHeaderValue(name);
+  if (/^[A-Za-z0-9!#$%&'*+\-/=?^_`{|}~ ]+$/.test(name)) return name;
+  return `"${name.replace(/(["\\])/g, "\\$1")}"`;
+}
+
+export function formatAddress({ name, email }: EmailAddress): string {
+  if (/[\r\n]/.test(`${name ?? ""}${email}`))
+    throw new Error("Email addresses must not contain line breaks");
+  if (!isValidEmail(email)) throw new Error(`Invalid email address "${email}"`);
+  return name ? `${formatDisplayName(name)} <${email}>` : email;
+}
+
+export const formatAddressList = (addresses: EmailAddress[]) =>
+  addresses.map(formatAddress).join(", ");
+
+// Tool input: each string may be "a@x", "Jane <j@x>" or a comma-separated list of either
+export function toAddresses(values: (string | EmailAddress)[] = []) {
+  return values.flatMap((v) =>
+    typeof v === "string" ? parseAddressList(v) : [v]
+  );
+}
+
+export const sameAddress = (a: EmailAddress, b: EmailAddress) =>
+  a.email.toLowerCase() === b.email.toLowerCase();
+
+// Drop repeats (case-insensitive), keeping the first occurrence
+export function uniqueAddresses(addresses: EmailAddress[]) {
+  return addresses.filter(
+    (a, i) => addresses.findIndex((b) => sameAddress(a, b)) === i
+  );
+}
+
+/**
+ * Recipients for a reply the way Gmail's web client picks them: Reply-To
+ * (else From), or the original To when answering your own message.
+ * Reply-all adds the remaining To and Cc addresses, minus your own and repeats.
+ */
+export function replyRecipients(
+  original: { from?: string; to?: string; cc?: string; replyTo?: string },
+  self: EmailAddress[],
+  replyAll: boolean
+) {
+  const isSelf = (a: EmailAddress) => self.some((s) => sameAddress(s, a));
+  const from = parseAddressList(original.from);
+  const to = parseAddressList(original.to);
+  const cc = parseAddressList(original.cc);
+  const replyTo = parseAddressList(original.replyTo);
+  const fromSelf = from.some(isSelf);
+
+  const primary = fromSelf ? to : replyTo.length ? replyTo : from;
+  const others = replyAll ? (fromSelf ? cc : [...to, ...cc]) : [];
+  const notSelf = uniqueAddresses(primary.filter((a) => !isSelf(a)));
+  // a message to yourself is still answered to yourself
+  const toList = notSelf.length ? notSelf : uniqueAddresses(primary);
+  const ccList = uniqueAddresses(
+    others.filter((a) => !isSelf(a) && !toList.some((t) => sameAddress(t, a)))
+  );
+  return { to: toList, cc: ccList };
+}
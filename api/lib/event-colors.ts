@@ -0,0 +1,89 @@
+// Category name <-> Calendar event colorId mapping
+
+// Names Google Calendar shows for the event palette
+export const GOOGLE_EVENT_COLOR_NAMES: Record<string, string> = {
+  "1": "Lavender",
+  "2": "Sage",
+  "3": "Grape",
+  "4": "Flamingo",
+  "5": "Banana",
+  "6": "Tangerine",
+  "7": "Peacock",
+  "8": "Graphite",
+  "9": "Blueberry",
+  "10": "Basil",
+  "11": "Tomato",
+};
+
+export type EventPalette = Record<
+  string,
+  { background: string; foreground: string }
+>;
+
+export type CategoryColors = {
+  byName: Map<string, { name: string; colorId: string }>;
+  byColorId: Map<string, string>;
+};
+
+const isHex = (value: string) => /^#[0-9a-f]{6}$/i.test(value);
+
+// Parse the CALENDAR_CATEGORY_COLORS env var: {"Work": "9", "Focus": "#51b749", "Travel": "Tangerine"}
+export function parseCategoryConfig(raw?: string): Record<string, string> {
+  if (!raw) return {};
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    throw new Error("CALENDAR_CATEGORY_COLORS must be a JSON object");
+  }
+  if (!parsed || typeof parsed !== "object" || Array.isArray(parsed))
+    throw new Error("CALENDAR_CATEGORY_COLORS must be a JSON object");
+  return Object.fromEntries(
+    Object.entries(parsed as Record<string, unknown>).map(([k, v]) => [
+      k,
+      String(v),
+    ])
+  );
+}
+
+// Hex values can only be resolved against the palette from the colors endpoint
+export const configNeedsPalette = (config: Record<string, string>) =>
+  Object.values(config).some(isHex);
+
+function resolveColorId(value: string, palette?: EventPalette) {
+  if (GOOGLE_EVENT_COLOR_NAMES[value]) return value;
+  const byName = Object.entries(GOOGLE_EVENT_COLOR_NAMES).find(
+    ([, name]) => name.toLowerCase() === value.toLowerCase()
+  );
+  if (byName) return byName[0];
+  if (isHex(value) && palette) {
+    const match = Object.entries(palette).find(
+      ([, c]) => c.background.toLowerCase() === value.toLowerCase()
+    );
+    if (match) return match[0];
+  }
+  throw new Error(
+    `Category color "${value}" is not an event colorId, color name or palette color`
+  );
+}
+
+/**
+ * Google's own color names always work as categories; deployment entries
+ * come last so they win both lookups.
+ */
+export function buildCategoryColors(
+  config: Record<string, string>,
+  palette?: EventPalette
+): CategoryColors {
+  const byName = new Map<string, { name: string; colorId: string }>();
+  const byColorId = new Map<string, string>();
+  const add = (name: string, colorId: string) => {
+    byName.set(name.toLowerCase(), { name, colorId });
+    byColorId.set(colorId, name);
+  };
+  for (const [colorId, name] of Object.entries(GOOGLE_EVENT_COLOR_NAMES))
+    add(name, colorId);
+  for (const [name, value] of Object.entries(config))
+    add(name, resolveColorId(value, palette));
+  return { byName, byColorId };
+}
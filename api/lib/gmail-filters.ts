@@ -0,0 +1,70 @@
+// Gmail filter (settings/filters) criteria and actions
+
+export type FilterCriteria = {
+  from?: string;
+  to?: string;
+  subject?: string;
+  query?: string;
+  negatedQuery?: string;
+  hasAttachment?: boolean;
+  excludeChats?: boolean;
+  size?: number; // bytes
+  sizeComparison?: "larger" | "smaller";
+};
+
+// Friendlier than raw label IDs; converted with filterLabelChanges
+export type FilterAction = {
+  addLabels?: string[];
+  removeLabels?: string[];
+  archive?: boolean;
+  markAsRead?: boolean;
+  star?: boolean;
+  markImportant?: boolean;
+  neverImportant?: boolean;
+  neverSpam?: boolean;
+  trash?: boolean;
+  forward?: string;
+};
+
+export function validateCriteria(criteria: FilterCriteria) {
+  const { size, sizeComparison, ...rest } = criteria;
+  if ((size === undefined) !== (sizeComparison === undefined))
+    throw new Error("size and sizeComparison must be given together");
+  if (
+    size === undefined &&
+    !Object.values(rest).some((v) => v !== undefined && v !== "")
+  )
+    throw new Error("A filter needs at least one criterion");
+  return criteria;
+}
+
+// Gmail search equivalent of the criteria, for previews and display
+export function criteriaToQuery(criteria: FilterCriteria): string {
+  const parts: string[] = [];
+  if (criteria.from) parts.push(`from:(${criteria.from})`);
+  if (criteria.to) parts.push(`to:(${criteria.to})`);
+  if (criteria.subject) parts.push(`subject:(${criteria.subject})`);
+  if (criteria.query) parts.push(`(${criteria.query})`);
+  if (criteria.negatedQuery) parts.push(`-{${criteria.negatedQuery}}`);
+  if (criteria.hasAttachment) parts.push("has:attachment");
+  if (criteria.excludeChats) parts.push("-in:chats");
+  if (criteria.size !== undefined && criteria.sizeComparison)
+    parts.push(`${criteria.sizeComparison}:${criteria.size}`);
+  return parts.join(" ");
+}
+
+// Label names (or IDs) to add and remove; system labels stand in for the flags
+export function filterLabelChanges(action: FilterAction) {
+  const add = [...(action.addLabels ?? [])];
+  const remove = [...(action.removeLabels ?? [])];
+  if (action.archive) remove.push("INBOX");
+  if (action.markAsRead) remove.push("UNREAD");
+  if (action.star) add.push("STARRED");
+  if (action.markImportant) add.push("IMPORTANT");
+  if (action.neverImportant) remove.push("IMPORTANT");
+  if (action.neverSpam) remove.push("SPAM");
+  if (action.trash) add.push("TRASH");
+  if (action.markImportant && action.neverImportant)
+    throw new Error("markImportant and neverImportant cannot both be set");
+  return { add, remove };
+}
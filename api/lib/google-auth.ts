@@ -149,8 +149,14 @@ export const GOOGLE_DEFAULT_SCOPES = [
   // Gmail read/modify + send
   "https://www.googleapis.com/auth/gmail.modify",
   "https://www.googleapis.com/auth/gmail.send",
+  // Gmail filters
+  "https://www.googleapis.com/auth/gmail.settings.basic",
   // Calendar events read/write
   "https://www.googleapis.com/auth/calendar.events",
+  // Calendar discovery (shared team and resource calendars)
+  "https://www.googleapis.com/auth/calendar.calendarlist.readonly",
+  // Free/busy lookups for meeting scheduling
+  "https://www.googleapis.com/auth/calendar.freebusy",
 ];
 
 export function getGoogleAuthEndpoint(endpoint: "authorize" | "token"): string {
@@ -0,0 +1,94 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+// Google API batch requests (multipart/mixed of embedded HTTP requests)
+
+export type BatchRequest = {
+  method: "GET" | "POST" | "PUT" | "PATCH" | "DELETE";
+  url: string; // absolute API URL; only path and query are sent
+  body?: unknown;
+};
+
+export type BatchResult<T = any> = {
+  status: number;
+  body?: T;
+  error?: string;
+};
+
+export const batchOk = (result: BatchResult) =>
+  result.status >= 200 && result.status < 300;
+
+export function buildBatchBody(
+  requests: BatchRequest[],
+  boundary: string
+): string {
+  const parts = requests.map((req, i) => {
+    const { pathname, search } = new URL(req.url);
+    const lines = [
+      `--${boundary}`,
+      "Content-Type: application/http",
+      `Content-ID: <item-${i}>`,
+      "",
+      `${req.method} ${pathname}${search}`,
+    ];
+    if (req.body !== undefined)
+      lines.push(
+        "Content-Type: application/json",
+        "",
+        JSON.stringify(req.body)
+      );
+    lines.push("");
+    return lines.join("\r\n");
+  });
+  return `${parts.join("\r\n")}\r\n--${boundary}--`;
+}
+
+function splitHead(text: string): [string, string] {
+  const m = /\r?\n\r?\n/.exec(text);
+  return m
+    ? [text.slice(0, m.index), text.slice(m.index + m[0].length)]
+    : [text, ""];
+}
+
+/**
+ * Parse a batch response into one result per request, in request order.
+ * Google answers each part with Content-ID <response-item-N>; items it
+ * never answered come back with status 0.
+ */
+export function parseBatchResponse<T = any>(
+  text: string,
+  contentType: string,
+  count: number
+): BatchResult<T>[] {
+  const boundary = /boundary="?([^";]+)"?/i.exec(contentType)?.[1];
+  if (!boundary) throw new Error("Batch response has no multipart boundary");
+  const results: BatchResult<T>[] = Array.from({ length: count }, () => ({
+    status: 0,
+    error: "Missing from batch response",
+  }));
+  for (const part of text.split(`--${boundary}`)) {
+    if (!part.trim() || part.startsWith("--")) continue;
+    const [outer, http] = splitHead(part.replace(/^\r?\n/, ""));
+    const index = Number(
+      /content-id:\s*<?response-item-(\d+)>?/i.exec(outer)?.[1]
+    );
+    if (!Number.isInteger(index) || index >= count) continue;
+    const [head, raw] = splitHead(http);
+    const status = Number(/^HTTP\/[\d.]+\s+(\d{3})/.exec(head)?.[1] ?? 0);
+    const bodyText = raw.trim();
+    let body: any;
+    try {
+      body = bodyText ? JSON.parse(bodyText) : undefined;
+    } catch {
+      body = bodyText;
+    }
+    results[index] =
+      status >= 200 && status < 300
+        ? { status, body }
+        : {
+            status,
+            error:
+              body?.error?.message ??
+              (typeof body === "string" ? body : `HTTP ${status}`),
+          };
+  }
+  return results;
+}
@@ -0,0 +1,537 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+// RFC 5545 iCalendar export (from Calendar API events) and import (to event resources)
+import {
+  addDays,
+  getTimeZoneOffset,
+  getZonedParts,
+  isValidTimeZone,
+} from "./time-zones";
+
+const PRODID = "-//google-mcp-oauth//Google MCP//EN";
+
+/* ------------------------ Writing ------------------------ */
+
+const pad = (n: number, width = 2) => String(n).padStart(width, "0");
+
+const escapeText = (value: string) =>
+  value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+
+const quoteParam = (value: string) =>
+  /[:;,]/.test(value) ? `"${value.replace(/"/g, "'")}"` : value;
+
+// Fold content lines at 75 octets without splitting UTF-8 sequences
+function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  const out: string[] = [];
+  let current = "";
+  let size = 0;
+  for (const ch of line) {
+    const bytes = encoder.encode(ch).length;
+    // continuation lines start with a space, which counts toward the limit
+    const limit = out.length ? 74 : 75;
+    if (size + bytes > limit) {
+      out.push(current);
+      current = "";
+      size = 0;
+    }
+    current += ch;
+    size += bytes;
+  }
+  out.push(current);
+  return out.join("\r\n ");
+}
+
+const utcStamp = (date: Date) =>
+  date
+    .toISOString()
+    .replace(/[-:]/g, "")
+    .replace(/\.\d{3}/, "");
+
+const basicDate = (date: string) => date.replace(/-/g, "");
+
+function localStamp(date: Date, timeZone: string) {
+  const p = getZonedParts(date, timeZone);
+  return `${pad(p.year, 4)}${pad(p.month)}${pad(p.day)}T${pad(p.hour)}${pad(
+    p.minute
+  )}${pad(p.second)}`;
+}
+
+// DTSTART/DTEND/RECURRENCE-ID for a Calendar API {date|dateTime,timeZone}
+function timeProperty(name: string, time: any): string | undefined {
+  if (!time) return undefined;
+  if (time.date) return `${name};VALUE=DATE:${basicDate(time.date)}`;
+  if (!time.dateTime) return undefined;
+  const instant = new Date(time.dateTime);
+  if (time.timeZone && isValidTimeZone(time.timeZone))
+    return `${name};TZID=${time.timeZone}:${localStamp(
+      instant,
+      time.timeZone
+    )}`;
+  return `${name}:${utcStamp(instant)}`;
+}
+
+const formatOffset = (minutes: number) => {
+  const sign = minutes < 0 ? "-" : "+";
+  const abs = Math.abs(minutes);
+  return `${sign}${pad(Math.floor(abs / 60))}${pad(abs % 60)}`;
+};
+
+// Offset transitions of a zone within one calendar year
+function transitionsIn(year: number, timeZone: string) {
+  const found: { at: number; from: number; to: number }[] = [];
+  for (let month = 0; month < 12; month++) {
+    let lo = Date.UTC(year, month, 1);
+    let hi = Date.UTC(year, month + 1, 1);
+    const from = getTimeZoneOffset(new Date(lo), timeZone);
+    const to = getTimeZoneOffset(new Date(hi), timeZone);
+    if (from === to) continue;
+    // binary search down to the minute
+    while (hi - lo > 60000) {
+      const mid = lo + Math.floor((hi - lo) / 120000) * 60000;
+      if (getTimeZoneOffset(new Date(mid), timeZone) === from) lo = mid;
+      else hi = mid;
+    }
+    found.push({ at: hi, from, to });
+  }
+  return found;
+}
+
+/**
+ * VTIMEZONE with the zone's real transitions for the given years, so
+ * consumers don't need to know IANA names to resolve TZID references.
+ */
+function buildTimeZone(timeZone: string, years: number[]): string[] {
+  const lines = ["BEGIN:VTIMEZONE", `TZID:${timeZone}`];
+  const transitions = years.flatMap((y) => transitionsIn(y, timeZone));
+  if (!transitions.length) {
+    const offset = formatOffset(
+      getTimeZoneOffset(new Date(Date.UTC(years[0], 0, 1)), timeZone)
+    );
+    lines.push(
+      "BEGIN:STANDARD",
+      "DTSTART:19700101T000000",
+      `TZOFFSETFROM:${offset}`,
+      `TZOFFSETTO:${offset}`,
+      "END:STANDARD"
+    );
+  }
+  for (const t of transitions) {
+    const kind = t.to > t.from ? "DAYLIGHT" : "STANDARD";
+    // DTSTART is the local time just before the change, in the old offset
+    const local = new Date(t.at + t.from * 60000);
+    lines.push(
+      `BEGIN:${kind}`,
+      `DTSTART:${utcStamp(local).replace(/Z$/, "")}`,
+      `TZOFFSETFROM:${formatOffset(t.from)}`,
+      `TZOFFSETTO:${formatOffset(t.to)}`,
+      `END:${kind}`
+    );
+  }
+  lines.push("END:VTIMEZONE");
+  return lines;
+}
+
+const PARTSTAT: Record<string, string> = {
+  accepted: "ACCEPTED",
+  declined: "DECLINED",
+  tentative: "TENTATIVE",
+  needsAction: "NEEDS-ACTION",
+};
+
+function buildEvent(event: any, exdates: string[] = []): string[] {
+  const lines = ["BEGIN:VEVENT"];
+  lines.push(`UID:${event.iCalUID ?? `${event.id}@google.com`}`);
+  lines.push(
+    `DTSTAMP:${utcStamp(event.updated ? new Date(event.updated) : new Date())}`
+  );
+  if (event.created) lines.push(`CREATED:${utcStamp(new Date(event.created))}`);
+  if (event.updated)
+    lines.push(`LAST-MODIFIED:${utcStamp(new Date(event.updated))}`);
+  for (const line of [
+    timeProperty("DTSTART", event.start),
+    timeProperty("DTEND", event.end),
+    event.recurringEventId
+      ? timeProperty("RECURRENCE-ID", event.originalStartTime)
+      : undefined,
+  ]) {
+    if (line) lines.push(line);
+  }
+  for (const rule of event.recurrence ?? []) lines.push(rule);
+  lines.push(...exdates);
+  if (event.summary) lines.push(`SUMMARY:${escapeText(event.summary)}`);
+  if (event.description)
+    lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+  if (event.location) lines.push(`LOCATION:${escapeText(event.location)}`);
+  if (event.status) lines.push(`STATUS:${event.status.toUpperCase()}`);
+  if (event.transparency === "transparent") lines.push("TRANSP:TRANSPARENT");
+  if (event.sequence !== undefined) lines.push(`SEQUENCE:${event.sequence}`);
+  if (event.hangoutLink) lines.push(`X-GOOGLE-CONFERENCE:${event.hangoutLink}`);
+  if (event.organizer?.email) {
+    const cn = event.organizer.displayName
+      ? `;CN=${quoteParam(event.organizer.displayName)}`
+      : "";
+    lines.push(`ORGANIZER${cn}:mailto:${event.organizer.email}`);
+  }
+  for (const a of event.attendees ?? []) {
+    if (!a.email) continue;
+    const params = [
+      a.displayName ? `CN=${quoteParam(a.displayName)}` : undefined,
+      `ROLE=${a.optional ? "OPT-PARTICIPANT" : "REQ-PARTICIPANT"}`,
+      `PARTSTAT=${PARTSTAT[a.responseStatus] ?? "NEEDS-ACTION"}`,
+      a.resource ? "CUTYPE=RESOURCE" : undefined,
+    ].filter(Boolean);
+    lines.push(`ATTENDEE;${params.join(";")}:mailto:${a.email}`);
+  }
+  lines.push("END:VEVENT");
+  return lines;
+}
+
+export function buildICalendar(events: any[], calendarName?: string): string {
+  // Years each zone is used in (recurring series may run past their first year)
+  const zoneYears = new Map<string, Set<number>>();
+  for (const e of events) {
+    for (const t of [e.start, e.end, e.originalStartTime]) {
+      if (!t?.dateTime || !t.timeZone || !isValidTimeZone(t.timeZone)) continue;
+      const year = new Date(t.dateTime).getUTCFullYear();
+      const years = zoneYears.get(t.timeZone) ?? new Set<number>();
+      years.add(year);
+      if (e.recurrence?.length) years.add(year + 1);
+      zoneYears.set(t.timeZone, years);
+    }
+  }
+
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${PRODID}`,
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+  ];
+  if (calendarName) lines.push(`X-WR-CALNAME:${escapeText(calendarName)}`);
+  for (const [zone, years] of zoneYears) {
+    lines.push(
+      ...buildTimeZone(
+        zone,
+        Array.from(years).sort((a, b) => a - b)
+      )
+    );
+  }
+  // Cancelled occurrences of a series have no times of their own; they
+  // become EXDATEs on the series instead
+  const exdates = new Map<string, string[]>();
+  for (const e of events) {
+    if (e.status !== "cancelled" || !e.recurringEventId) continue;
+    const line = timeProperty("EXDATE", e.originalStartTime);
+    if (line)
+      exdates.set(e.recurringEventId, [
+        ...(exdates.get(e.recurringEventId) ?? []),
+        line,
+      ]);
+  }
+  for (const e of events) {
+    if (e.status === "cancelled") continue;
+    lines.push(...buildEvent(e, exdates.get(e.id)));
+  }
+  lines.push("END:VCALENDAR");
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
+
+/* ------------------------ Reading ------------------------ */
+
+type Property = {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+};
+
+type Component = {
+  type: string;
+  props: Property[];
+  children: Component[];
+};
+
+const unescapeText = (value: string) =>
+  value.replace(/\\([\\;,nN])/g, (_, c: string) =>
+    c === "n" || c === "N" ? "\n" : c
+  );
+
+function parseProperty(line: string): Property | undefined {
+  // name, then ;param=value pairs (values may be quoted), then :value
+  let i = 0;
+  while (i < line.length && line[i] !== ";" && line[i] !== ":") i++;
+  const name = line.slice(0, i).toUpperCase();
+  const params: Record<string, string> = {};
+  while (line[i] === ";") {
+    const eq = line.indexOf("=", i);
+    if (eq < 0) return undefined;
+    const key = line.slice(i + 1, eq).toUpperCase();
+    let j = eq + 1;
+    let value = "";
+    if (line[j] === '"') {
+      const close = line.indexOf('"', j + 1);
+      if (close < 0) return undefined;
+      value = line.slice(j + 1, close);
+      j = close + 1;
+    } else {
+      while (j < line.length && line[j] !== ";" && line[j] !== ":") j++;
+      value = line.slice(eq + 1, j);
+    }
+    params[key] = value;
+    i = j;
+  }
+  if (line[i] !== ":" || !name) return undefined;
+  return { name, params, value: line.slice(i + 1) };
+}
+
+function parseComponents(text: string): Component[] {
+  const lines = text
+    .replace(/\r\n[ \t]/g, "")
+    .replace(/\n[ \t]/g, "")
+    .split(/\r?\n/)
+    .filter((l) => l.trim() !== "");
+  const root: Component = { type: "ROOT", props: [], children: [] };
+  const stack = [root];
+  for (const line of lines) {
+    const prop = parseProperty(line);
+    if (!prop) continue;
+    const top = stack[stack.length - 1];
+    if (prop.name === "BEGIN") {
+      const child = { type: prop.value.toUpperCase(), props: [], children: [] };
+      top.children.push(child);
+      stack.push(child);
+    } else if (prop.name === "END") {
+      if (stack.length > 1) stack.pop();
+    } else {
+      top.props.push(prop);
+    }
+  }
+  return root.children;
+}
+
+const first = (c: Component, name: string) =>
+  c.props.find((p) => p.name === name);
+
+// "PT1H30M", "-P1D", "P2W" -> milliseconds (sign preserved)
+function parseDuration(value: string): number | undefined {
+  const m =
+    /^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/i.exec(
+      value.trim()
+    );
+  if (!m) return undefined;
+  const [, sign, w, d, h, min, sec] = m;
+  const ms =
+    (Number(w ?? 0) * 7 * 86400 +
+      Number(d ?? 0) * 86400 +
+      Number(h ?? 0) * 3600 +
+      Number(min ?? 0) * 60 +
+      Number(sec ?? 0)) *
+    1000;
+  return sign === "-" ? -ms : ms;
+}
+
+type ParsedTime = { date?: string; dateTime?: string; timeZone?: string };
+
+/**
+ * DATE, UTC DATE-TIME, DATE-TIME with TZID, or floating DATE-TIME (which
+ * takes `defaultTimeZone`). Returns an error string for unusable values.
+ */
+function parseTime(
+  prop: Property,
+  zones: Map<string, string>,
+  defaultTimeZone?: string
+): ParsedTime | string {
+  const value = prop.value.trim();
+  const m = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/i.exec(
+    value
+  );
+  if (!m) return `unreadable ${prop.name} "${value}"`;
+  const [, y, mo, d, h, mi, s, z] = m;
+  if (prop.params.VALUE === "DATE" || h === undefined)
+    return { date: `${y}-${mo}-${d}` };
+  const local = `${y}-${mo}-${d}T${h}:${mi}:${s}`;
+  if (z) return { dateTime: `${local}Z` };
+  const tzid = prop.params.TZID;
+  if (tzid) {
+    const zone = zones.get(tzid) ?? (isValidTimeZone(tzid) ? tzid : undefined);
+    if (!zone) return `unsupported TZID "${tzid}"`;
+    return { dateTime: local, timeZone: zone };
+  }
+  if (!defaultTimeZone) return `floating ${prop.name} without a time zone`;
+  return { dateTime: local, timeZone: defaultTimeZone };
+}
+
+// Shift a parsed start by a duration, keeping its form (date / local / UTC)
+function shiftTime(start: ParsedTime, ms: number): ParsedTime {
+  if (start.date) {
+    return { date: addDays(start.date, Math.round(ms / 86400000)) };
+  }
+  const utc = start.dateTime?.endsWith("Z");
+  const base = Date.parse(utc ? start.dateTime! : `${start.dateTime}Z`);
+  const shifted = new Date(base + ms).toISOString().replace(/\.\d{3}Z$/, "");
+  return {
+    dateTime: utc ? `${shifted}Z` : shifted,
+    timeZone: start.timeZone,
+  };
+}
+
+export type IcsImportItem = {
+  uid?: string;
+  summary?: string;
+  event?: any; // Calendar API event resource, ready for events.insert
+  skipped?: string; // reason, when the component can't be imported
+};
+
+export function parseICalendar(
+  text: string,
+  defaultTimeZone?: string
+): IcsImportItem[] {
+  const calendars = parseComponents(text).filter((c) => c.type === "VCALENDAR");
+  if (!calendars.length)
+    throw new Error("No VCALENDAR found in iCalendar text");
+
+  const items: IcsImportItem[] = [];
+  for (const calendar of calendars) {
+    // TZID -> IANA zone (the TZID itself, or X-LIC-LOCATION when it isn't one)
+    const zones = new Map<string, string>();
+    for (const tz of calendar.children.filter((c) => c.type === "VTIMEZONE")) {
+      const tzid = first(tz, "TZID")?.value;
+      if (!tzid) continue;
+      const location = first(tz, "X-LIC-LOCATION")?.value;
+      const zone = isValidTimeZone(tzid)
+        ? tzid
+        : location && isValidTimeZone(location)
+        ? location
+        : undefined;
+      if (zone) zones.set(tzid, zone);
+    }
+
+    for (const component of calendar.children) {
+      if (component.type === "VTIMEZONE") continue;
+      const uid = first(component, "UID")?.value;
+      const summaryProp = first(component, "SUMMARY");
+      const summary = summaryProp ? unescapeText(summaryProp.value) : undefined;
+      if (component.type !== "VEVENT") {
+        items.push({
+          uid,
+          summary,
+          skipped: `${component.type} is not supported`,
+        });
+        continue;
+      }
+      items.push({
+        uid,
+        summary,
+        ...toEventResource(component, zones, defaultTimeZone),
+      });
+    }
+  }
+  return items;
+}
+
+function toEventResource(
+  vevent: Component,
+  zones: Map<string, string>,
+  defaultTimeZone?: string
+): { event?: any; skipped?: string } {
+  if (first(vevent, "RECURRENCE-ID"))
+    return {
+      skipped: "recurrence exceptions (RECURRENCE-ID) are not supported",
+    };
+  if (first(vevent, "STATUS")?.value.toUpperCase() === "CANCELLED")
+    return { skipped: "event is cancelled" };
+
+  const dtstart = first(vevent, "DTSTART");
+  if (!dtstart) return { skipped: "missing DTSTART" };
+  const start = parseTime(dtstart, zones, defaultTimeZone);
+  if (typeof start === "string") return { skipped: start };
+
+  let end: ParsedTime | string;
+  const dtend = first(vevent, "DTEND");
+  const duration = first(vevent, "DURATION");
+  if (dtend) {
+    end = parseTime(dtend, zones, defaultTimeZone);
+  } else if (duration) {
+    const ms = parseDuration(duration.value);
+    end =
+      ms === undefined
+        ? `unreadable DURATION "${duration.value}"`
+        : shiftTime(start, ms);
+  } else {
+    // RFC 5545: no end means one day for dates, zero length for date-times
+    end = shiftTime(start, start.date ? 86400000 : 0);
+  }
+  if (typeof end === "string") return { skipped: end };
+
+  const event: any = { start, end };
+  const text = (name: string) => {
+    const prop = first(vevent, name);
+    return prop ? unescapeText(prop.value) : undefined;
+  };
+  event.summary = text("SUMMARY");
+  event.description = text("DESCRIPTION");
+  event.location = text("LOCATION");
+  if (first(vevent, "TRANSP")?.value.toUpperCase() === "TRANSPARENT")
+    event.transparency = "transparent";
+  if (first(vevent, "STATUS")?.value.toUpperCase() === "TENTATIVE")
+    event.status = "tentative";
+
+  // Keep recurrence lines in their original form (Google accepts TZID params)
+  const recurrence = vevent.props
+    .filter((p) => ["RRULE", "EXRULE", "RDATE", "EXDATE"].includes(p.name))
+    .map((p) => {
+      const params = Object.entries(p.params)
+        .map(([k, v]) => `;${k}=${quoteParam(v)}`)
+        .join("");
+      return `${p.name}${params}:${p.value}`;
+    });
+  if (recurrence.length) {
+    event.recurrence = recurrence;
+    // Google needs an explicit zone to expand a timed series
+    if (start.dateTime && !start.timeZone) {
+      event.start = { ...start, timeZone: "UTC" };
+      event.end = { ...end, timeZone: "UTC" };
+    }
+  }
+
+  const attendees = vevent.props
+    .filter((p) => p.name === "ATTENDEE")
+    .map((p) => {
+      const email = p.value.replace(/^mailto:/i, "").trim();
+      const partstat = p.params.PARTSTAT?.toUpperCase();
+      return {
+        email,
+        displayName: p.params.CN,
+        optional:
+          p.params.ROLE?.toUpperCase() === "OPT-PARTICIPANT" || undefined,
+        responseStatus:
+          Object.keys(PARTSTAT).find((k) => PARTSTAT[k] === partstat) ??
+          "needsAction",
+      };
+    })
+    .filter((a) => a.email.includes("@"));
+  if (attendees.length) event.attendees = attendees;
+
+  // VALARMs with a negative trigger relative to start become reminder overrides
+  const overrides = vevent.children
+    .filter((c) => c.type === "VALARM")
+    .map((alarm) => {
+      const trigger = first(alarm, "TRIGGER");
+      const ms = trigger ? parseDuration(trigger.value) : undefined;
+      if (ms === undefined || ms > 0 || trigger?.params.RELATED === "END")
+        return undefined;
+      const action = first(alarm, "ACTION")?.value.toUpperCase();
+      return {
+        method: action === "EMAIL" ? "email" : "popup",
+        minutes: Math.round(-ms / 60000),
+      };
+    })
+    .filter((o) => o !== undefined)
+    .slice(0, 5);
+  if (overrides.length) event.reminders = { useDefault: false, overrides };
+
+  return { event };
+}
@@ -10,3 +10,95 @@ export const putServerCursor = (
     `cursor:${serverName}`,
     historyId /*, { expirationTtl: 60*60*24*90 }*/
   );
+
+export type CalendarChannel = {
+  serverName: string;
+  calendarId: string;
+  token: string;
+  resourceId: string;
+  expiration?: string;
+};
+
+export const getCalendarChannel = (env: Env, channelId: string) =>
+  env.GMAIL_HISTORY_KV.get<CalendarChannel>(
+    `calendar-channel:${channelId}`,
+    "json"
+  );
+
+export const putCalendarChannel = (
+  env: Env,
+  channelId: string,
+  channel: CalendarChannel
+) =>
+  env.GMAIL_HISTORY_KV.put(
+    `calendar-channel:${channelId}`,
+    JSON.stringify(channel),
+    // the channel is useless to us once Google stops sending on it
+    channel.expiration
+      ? { expiration: Math.floor(Number(channel.expiration) / 1000) }
+      : undefined
+  );
+
+export const getCalendarSyncToken = (
+  env: Env,
+  serverName: string,
+  calendarId: string
+) => env.GMAIL_HISTORY_KV.get(`calendar-sync:${serverName}:${calendarId}`);
+
+export const putCalendarSyncToken = (
+  env: Env,
+  serverName: string,
+  calendarId: string,
+  syncToken: string
+) =>
+  env.GMAIL_HISTORY_KV.put(
+    `calendar-sync:${serverName}:${calendarId}`,
+    syncToken
+  );
+
+// syncCalendarChanges keeps its own token: sharing the webhook's would let
+// each consumer advance it past changes the other has not seen yet
+export const getToolSyncToken = (
+  env: Env,
+  serverName: string,
+  calendarId: string
+) => env.GMAIL_HISTORY_KV.get(`calendar-tool-sync:${serverName}:${calendarId}`);
+
+export const putToolSyncToken = (
+  env: Env,
+  serverName: string,
+  calendarId: string,
+  syncToken: string
+) =>
+  env.GMAIL_HISTORY_KV.put(
+    `calendar-tool-sync:${serverName}:${calendarId}`,
+    syncToken
+  );
+
+// Refresh tokens handed out by /token, keyed by a hash of the access token
+// issued with them, so an MCP session (which only sees the access token) can
+// find credentials for work that outlives it
+async function refreshTokenKey(accessToken: string) {
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(accessToken)
+  );
+  const hex = Array.from(new Uint8Array(digest), (b) =>
+    b.toString(16).padStart(2, "0")
+  ).join("");
+  return `google-refresh:${hex}`;
+}
+
+export const getRefreshToken = async (env: Env, accessToken: string) =>
+  env.GMAIL_HISTORY_KV.get(await refreshTokenKey(accessToken));
+
+export const putRefreshToken = async (
+  env: Env,
+  accessToken: string,
+  refreshToken: string,
+  expiresIn = 3600
+) =>
+  env.GMAIL_HISTORY_KV.put(await refreshTokenKey(accessToken), refreshToken, {
+    // only useful while the access token is; KV's minimum TTL is a minute
+    expirationTtl: Math.max(expiresIn, 60),
+  });
@@ -0,0 +1,379 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+// Helpers for Gmail message payloads (the parsed MIME tree from format=full)
+
+export type AttachmentInfo = {
+  partId: string; // stable across fetches, unlike attachmentId
+  attachmentId?: string;
+  filename: string;
+  mimeType: string;
+  size: number;
+  contentId?: string; // set for inline parts referenced from HTML (cid:)
+  inline: boolean;
+};
+
+export function base64UrlToBytes(data: string): Uint8Array {
+  const std = data.replace(/-/g, "+").replace(/_/g, "/");
+  const pad = std.length % 4 ? 4 - (std.length % 4) : 0;
+  const bin = atob(std + "=".repeat(pad));
+  const bytes = new Uint8Array(bin.length);
+  for (let i = 0; i < bin.length; i++) bytes[i] = bin.charCodeAt(i);
+  return bytes;
+}
+
+export function bytesToBase64(bytes: Uint8Array): string {
+  let bin = "";
+  // chunked to stay under the argument limit of String.fromCharCode
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    bin += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(bin);
+}
+
+const header = (part: any, name: string): string | undefined =>
+  part.headers?.find((h: any) => h.name?.toLowerCase() === name)?.value;
+
+// Every part with a filename or a detached body is treated as an attachment
+export function collectAttachments(payload: any): AttachmentInfo[] {
+  const found: AttachmentInfo[] = [];
+  const walk = (part: any) => {
+    if (!part) return;
+    if (part.filename || (part.body?.attachmentId && !part.parts)) {
+      const disposition = header(part, "content-disposition") ?? "";
+      const contentId = header(part, "content-id")?.replace(/^<|>$/g, "");
+      found.push({
+        partId: part.partId,
+        attachmentId: part.body?.attachmentId,
+        filename: part.filename || "",
+        mimeType: part.mimeType ?? "application/octet-stream",
+        size: part.body?.size ?? 0,
+        contentId,
+        inline: /^inline/i.test(disposition),
+      });
+    }
+    for (const child of part.parts ?? []) walk(child);
+  };
+  walk(payload);
+  return found;
+}
+
+export function findPart(
+  payload: any,
+  match: (part: any) => boolean
+): any | undefined {
+  if (!payload) return undefined;
+  if (match(payload)) return payload;
+  for (const child of payload.parts ?? []) {
+    const hit = findPart(child, match);
+    if (hit) return hit;
+  }
+  return undefined;
+}
+
+// Decode bytes with the charset named in a Content-Type value, falling back to UTF-8
+export function decodeText(bytes: Uint8Array, contentType = ""): string {
+  const charset = /charset="?([^";]+)"?/i.exec(contentType)?.[1] ?? "utf-8";
+  try {
+    return new TextDecoder(charset).decode(bytes);
+  } catch {
+    return new TextDecoder("utf-8").decode(bytes);
+  }
+}
+
+const isAttachmentPart = (part: any) =>
+  Boolean(part.filename) ||
+  /^attachment/i.test(header(part, "content-disposition") ?? "");
+
+// Decoded content of the first non-attachment part of the given type
+function bodyOfType(payload: any, mimeType: string): string | undefined {
+  const part = findPart(
+    payload,
+    (p) =>
+      p.mimeType?.toLowerCase() === mimeType &&
+      !isAttachmentPart(p) &&
+      p.body?.data !== undefined
+  );
+  return part
+    ? decodeText(base64UrlToBytes(part.body.data), header(part, "content-type"))
+    : undefined;
+}
+
+// Readable body of a message: the first text/plain part, else the HTML converted to text
+export function extractBodyText(payload: any): string {
+  const plain = bodyOfType(payload, "text/plain");
+  if (plain !== undefined) return plain;
+  const html = bodyOfType(payload, "text/html");
+  return html !== undefined ? htmlToText(html) : "";
+}
+
+export const extractBodyHtml = (payload: any) =>
+  bodyOfType(payload, "text/html");
+
+export const escapeHtml = (text: string) =>
+  text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+const TEXT_TYPES = [
+  /^text\//,
+  /^application\/(json|xml|javascript|x-javascript|ecmascript|csv|x-sh|x-yaml|yaml|sql)$/,
+  /\+(json|xml)$/,
+];
+
+export const isTextMimeType = (mimeType: string) =>
+  TEXT_TYPES.some((re) => re.test(mimeType.toLowerCase().split(";")[0]));
+
+/* ------------------------ Building ------------------------ */
+
+export type MimeAttachment = {
+  filename: string;
+  mimeType: string;
+  content: Uint8Array;
+  contentId?: string;
+  inline?: boolean;
+};
+
+const CRLF = "\r\n";
+
+export function bytesToBase64Url(bytes: Uint8Array): string {
+  return bytesToBase64(bytes)
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+// Header injection guard: a CR or LF would start a new header line
+export function assertHeaderSafe(name: string, value: string) {
+  if (/[\r\n]/.test(value))
+    throw new Error(`${name} must not contain line breaks`);
+  return value;
+}
+
+const ENCODED_WORD_BYTES = 45; // 60 base64 chars, inside the 75-char word limit
+
+// RFC 2047 B-encoding for non-ASCII header text; ASCII passes through unchanged
+export function encodeHeaderValue(text: string): string {
+  if (/^[\x20-\x7e]*$/.test(text)) return text;
+  const encoder = new TextEncoder();
+  const words: string[] = [];
+  let chunk: number[] = [];
+  const flush = () => {
+    if (chunk.length)
+      words.push(`=?UTF-8?B?${bytesToBase64(Uint8Array.from(chunk))}?=`);
+    chunk = [];
+  };
+  // split between characters, never inside a multi-byte sequence
+  for (const ch of text) {
+    const bytes = encoder.encode(ch);
+    if (chunk.length + bytes.length > ENCODED_WORD_BYTES) flush();
+    chunk.push(...bytes);
+  }
+  flush();
+  return words.join(`${CRLF} `);
+}
+
+// Decode RFC 2047 encoded-words (=?charset?B|Q?...?=) left in header values
+export function decodeHeaderValue(value: string): string {
+  return value
+    .replace(/(\?=)\s+(=\?)/g, "$1$2")
+    .replace(
+      /=\?([^?]+)\?([BbQq])\?([^?]*)\?=/g,
+      (m, charset: string, encoding: string, data: string) => {
+        let bytes: Uint8Array;
+        if (encoding.toUpperCase() === "B") {
+          try {
+            bytes = base64UrlToBytes(data);
+          } catch {
+            return m;
+          }
+        } else {
+          const text = data.replace(/_/g, " ");
+          const out: number[] = [];
+          for (let i = 0; i < text.length; i++) {
+            const hex = /^=([0-9a-f]{2})/i.exec(text.slice(i));
+            if (hex) {
+              out.push(parseInt(hex[1], 16));
+              i += 2;
+            } else out.push(text.charCodeAt(i));
+          }
+          bytes = Uint8Array.from(out);
+        }
+        return decodeText(bytes, `charset=${charset.split("*")[0]}`);
+      }
+    );
+}
+
+const wrap76 = (s: string) => s.replace(/(.{76})(?=.)/g, `$1${CRLF}`);
+
+// Quoted-printable (RFC 2045) over the UTF-8 bytes of the text
+export function encodeQuotedPrintable(text: string): string {
+  const lines = text.replace(/\r?\n/g, "\n").split("\n");
+  const encoder = new TextEncoder();
+  return lines
+    .map((line) => {
+      const bytes = encoder.encode(line);
+      let out = "";
+      let width = 0;
+      bytes.forEach((b, i) => {
+        const last = i === bytes.length - 1;
+        // trailing whitespace must be encoded or it gets stripped in transit
+        const literal =
+          (b >= 33 && b <= 126 && b !== 61) || ((b === 32 || b === 9) && !last);
+        const token = literal
+          ? String.fromCharCode(b)
+          : `=${b.toString(16).toUpperCase().padStart(2, "0")}`;
+        if (width + token.length > 75) {
+          out += `=${CRLF}`;
+          width = 0;
+        }
+        out += token;
+        width += token.length;
+      });
+      return out;
+    })
+    .join(CRLF);
+}
+
+const isPlain7bit = (text: string) =>
+  /^[\x20-\x7e\t\r\n]*$/.test(text) &&
+  text.split(/\r?\n/).every((l) => l.length <= 998);
+
+function textPart(text: string, subtype: "plain" | "html") {
+  const sevenBit = isPlain7bit(text);
+  return [
+    `Content-Type: text/${subtype}; charset="UTF-8"`,
+    `Content-Transfer-Encoding: ${sevenBit ? "7bit" : "quoted-printable"}`,
+    "",
+    sevenBit ? text.replace(/\r?\n/g, CRLF) : encodeQuotedPrintable(text),
+  ].join(CRLF);
+}
+
+// RFC 2231 for non-ASCII filenames, plain quoted string otherwise
+function filenameParam(name: string, filename: string) {
+  if (/^[\x20-\x7e]*$/.test(filename))
+    return `${name}="${filename.replace(/["\\\r\n]/g, "_")}"`;
+  const encoded = Array.from(new TextEncoder().encode(filename), (b) =>
+    /[A-Za-z0-9!#$&+\-.^_`|~]/.test(String.fromCharCode(b))
+      ? String.fromCharCode(b)
+      : `%${b.toString(16).toUpperCase().padStart(2, "0")}`
+  ).join("");
+  return `${name}*=UTF-8''${encoded}`;
+}
+
+function attachmentPart(a: MimeAttachment) {
+  assertHeaderSafe("Attachment mimeType", a.mimeType);
+  if (a.contentId) assertHeaderSafe("Attachment contentId", a.contentId);
+  const headers = [
+    `Content-Type: ${a.mimeType}; ${filenameParam("name", a.filename)}`,
+    `Content-Disposition: ${a.inline ? "inline" : "attachment"}; ${filenameParam(
+      "filename",
+      a.filename
+    )}`,
+    "Content-Transfer-Encoding: base64",
+  ];
+  if (a.contentId) headers.push(`Content-ID: <${a.contentId}>`);
+  return [...headers, "", wrap76(bytesToBase64(a.content))].join(CRLF);
+}
+
+const newBoundary = () => `----=_Part_${crypto.randomUUID().replace(/-/g, "")}`;
+
+function multipart(
+  subtype: "alternative" | "related" | "mixed",
+  parts: string[]
+) {
+  const boundary = newBoundary();
+  return [
+    `Content-Type: multipart/${subtype}; boundary="${boundary}"`,
+    "",
+    ...parts.map((p) => `--${boundary}${CRLF}${p}`),
+    `--${boundary}--`,
+  ].join(CRLF);
+}
+
+/**
+ * Assemble a MIME message from pre-formatted header lines and content:
+ * text/plain alone, multipart/alternative when there is HTML, inline (cid:)
+ * images in multipart/related around it, and multipart/mixed on the outside
+ * for regular attachments.
+ */
+export function buildMimeMessage({
+  headers,
+  text,
+  html,
+  attachments = [],
+}: {
+  headers: string[];
+  text: string;
+  html?: string;
+  attachments?: MimeAttachment[];
+}): string {
+  const related = html
+    ? attachments.filter((a) => a.inline && a.contentId)
+    : [];
+  const mixed = attachments.filter((a) => !related.includes(a));
+
+  let body =
+    html !== undefined
+      ? multipart("alternative", [
+          textPart(text, "plain"),
+          textPart(html, "html"),
+        ])
+      : textPart(text, "plain");
+  if (related.length)
+    body = multipart("related", [body, ...related.map(attachmentPart)]);
+  if (mixed.length)
+    body = multipart("mixed", [body, ...mixed.map(attachmentPart)]);
+  return [...headers, "MIME-Version: 1.0", body].join(CRLF);
+}
+
+const ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+  copy: "©",
+  reg: "®",
+  hellip: "…",
+  mdash: "—",
+  ndash: "–",
+  lsquo: "‘",
+  rsquo: "’",
+  ldquo: "“",
+  rdquo: "”",
+};
+
+export const decodeHtmlEntities = (text: string) =>
+  text.replace(/&(#x?[0-9a-f]+|\w+);/gi, (m, code: string) => {
+    if (code[0] === "#") {
+      const n =
+        code[1].toLowerCase() === "x"
+          ? parseInt(code.slice(2), 16)
+          : parseInt(code.slice(1), 10);
+      return Number.isNaN(n) || n > 0x10ffff ? m : String.fromCodePoint(n);
+    }
+    return ENTITIES[code.toLowerCase()] ?? m;
+  });
+
+// Good-enough HTML to text for email bodies: keeps paragraphs, list items and link targets
+export function htmlToText(html: string): string {
+  const stripped = html
+    .replace(/<(script|style|head)[^>]*>[\s\S]*?<\/\1>/gi, "")
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<li[^>]*>/gi, "\n- ")
+    .replace(/<\/(p|div|h[1-6]|tr|table|blockquote|ul|ol)>/gi, "\n")
+    .replace(
+      /<a\s[^>]*href="([^"]*)"[^>]*>([\s\S]*?)<\/a>/gi,
+      (_, href: string, label: string) =>
+        label.replace(/<[^>]+>/g, "").trim() === href
+          ? href
+          : `${label} (${href})`
+    )
+    .replace(/<[^>]+>/g, "");
+  return decodeHtmlEntities(stripped)
+    .replace(/[ \t]+\n/g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
@@ -0,0 +1,87 @@
+// RFC 5545 recurrence helpers for Calendar API `recurrence` arrays
+
+const RECURRENCE_PREFIXES = ["RRULE:", "EXRULE:", "RDATE", "EXDATE"];
+
+export function validateRecurrence(lines: string[]) {
+  for (const line of lines) {
+    const upper = line.toUpperCase();
+    if (!RECURRENCE_PREFIXES.some((p) => upper.startsWith(p)))
+      throw new Error(
+        `Invalid recurrence line "${line}": expected RRULE, EXRULE, RDATE or EXDATE`
+      );
+    if (/[\r\n]/.test(line))
+      throw new Error("Recurrence lines must not contain line breaks");
+  }
+  return lines;
+}
+
+export function parseRRule(line: string): Map<string, string> {
+  const rule = new Map<string, string>();
+  for (const part of line.replace(/^RRULE:/i, "").split(";")) {
+    const [key, value] = part.split("=");
+    if (key && value !== undefined) rule.set(key.toUpperCase(), value);
+  }
+  return rule;
+}
+
+export function formatRRule(rule: Map<string, string>): string {
+  return `RRULE:${Array.from(rule, ([k, v]) => `${k}=${v}`).join(";")}`;
+}
+
+// UNTIL value one step before the split point, in the form RFC 5545 requires
+// for the series' DTSTART type (DATE for all-day, UTC DATE-TIME otherwise)
+function untilBefore(split: { date?: string; dateTime?: string }) {
+  if (split.date) {
+    const [y, m, d] = split.date.split("-").map(Number);
+    return new Date(Date.UTC(y, m - 1, d - 1))
+      .toISOString()
+      .slice(0, 10)
+      .replace(/-/g, "");
+  }
+  const instant = new Date(new Date(split.dateTime as string).getTime() - 1000);
+  return instant
+    .toISOString()
+    .replace(/[-:]/g, "")
+    .replace(/\.\d{3}/, "");
+}
+
+/**
+ * Split a series at an occurrence: `before` ends just ahead of it and `after`
+ * continues from it. `occurrencesBefore` is only needed for COUNT rules.
+ */
+export function splitRecurrence(
+  lines: string[],
+  split: { date?: string; dateTime?: string },
+  occurrencesBefore?: number
+): { before: string[]; after: string[] } {
+  const before: string[] = [];
+  const after: string[] = [];
+  for (const line of lines) {
+    if (!/^RRULE:/i.test(line)) {
+      before.push(line);
+      after.push(line);
+      continue;
+    }
+    const rule = parseRRule(line);
+    const count = rule.get("COUNT");
+    if (count !== undefined) {
+      if (occurrencesBefore === undefined)
+        throw new Error("occurrencesBefore is required for COUNT rules");
+      const head = new Map(rule);
+      head.set("COUNT", String(occurrencesBefore));
+      const tail = new Map(rule);
+      tail.set("COUNT", String(Math.max(Number(count) - occurrencesBefore, 1)));
+      before.push(formatRRule(head));
+      after.push(formatRRule(tail));
+    } else {
+      const head = new Map(rule);
+      head.set("UNTIL", untilBefore(split));
+      before.push(formatRRule(head));
+      after.push(line);
+    }
+  }
+  return { before, after };
+}
+
+export const hasCountRule = (lines: string[]) =>
+  lines.some((l) => /^RRULE:/i.test(l) && parseRRule(l).has("COUNT"));
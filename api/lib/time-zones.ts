@@ -0,0 +1,133 @@
+// Small IANA time zone helpers built on Intl (Workers ship full ICU data)
+
+export type ZonedParts = {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+};
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function formatterFor(timeZone: string) {
+  let fmt = formatters.get(timeZone);
+  if (!fmt) {
+    fmt = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hour12: false,
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    });
+    formatters.set(timeZone, fmt);
+  }
+  return fmt;
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    formatterFor(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Wall-clock parts of an instant as seen in the given zone
+export function getZonedParts(date: Date, timeZone: string): ZonedParts {
+  const parts: Record<string, string> = {};
+  for (const p of formatterFor(timeZone).formatToParts(date)) {
+    parts[p.type] = p.value;
+  }
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    // some engines render midnight as "24" with hour12: false
+    hour: Number(parts.hour) % 24,
+    minute: Number(parts.minute),
+    second: Number(parts.second),
+  };
+}
+
+// Offset of the zone from UTC (in minutes) at the given instant
+export function getTimeZoneOffset(date: Date, timeZone: string): number {
+  const p = getZonedParts(date, timeZone);
+  const asUtc = Date.UTC(
+    p.year,
+    p.month - 1,
+    p.day,
+    p.hour,
+    p.minute,
+    p.second
+  );
+  const instant = Math.floor(date.getTime() / 1000) * 1000;
+  return Math.round((asUtc - instant) / 60000);
+}
+
+// Instant for a wall-clock date ("YYYY-MM-DD") and time ("HH:MM") in the zone
+export function zonedTimeToUtc(
+  date: string,
+  time: string,
+  timeZone: string
+): Date {
+  const [y, m, d] = date.split("-").map(Number);
+  const [hh, mm] = time.split(":").map(Number);
+  const guess = Date.UTC(y, m - 1, d, hh, mm || 0);
+  // Two passes settle the offset across DST transitions
+  const first = guess - getTimeZoneOffset(new Date(guess), timeZone) * 60000;
+  const second = guess - getTimeZoneOffset(new Date(first), timeZone) * 60000;
+  return new Date(second);
+}
+
+const pad = (n: number, width = 2) => String(n).padStart(width, "0");
+
+// Calendar date ("YYYY-MM-DD") of an instant in the zone
+export function toZonedDate(date: Date, timeZone: string): string {
+  const p = getZonedParts(date, timeZone);
+  return `${pad(p.year, 4)}-${pad(p.month)}-${pad(p.day)}`;
+}
+
+export const isDateOnly = (value: string) => /^\d{4}-\d{2}-\d{2}$/.test(value);
+
+export const hasOffset = (value: string) =>
+  /(Z|[+-]\d{2}:?\d{2})$/i.test(value);
+
+// Calendar date of a date or date/time string; values with an offset are read
+// in the zone when one is given, floating values keep the date as written
+export function toCalendarDate(value: string, timeZone?: string): string {
+  if (isDateOnly(value)) return value;
+  const instant = new Date(value);
+  if (timeZone && hasOffset(value) && !Number.isNaN(instant.getTime()))
+    return toZonedDate(instant, timeZone);
+  return value.slice(0, 10);
+}
+
+// ISO 8601 with the zone's offset, e.g. 2025-03-10T09:00:00-04:00
+export function formatZonedIso(date: Date, timeZone: string): string {
+  const p = getZonedParts(date, timeZone);
+  const offset = getTimeZoneOffset(date, timeZone);
+  const sign = offset < 0 ? "-" : "+";
+  const abs = Math.abs(offset);
+  return `${pad(p.year, 4)}-${pad(p.month)}-${pad(p.day)}T${pad(p.hour)}:${pad(
+    p.minute
+  )}:${pad(p.second)}${sign}${pad(Math.floor(abs / 60))}:${pad(abs % 60)}`;
+}
+
+// Shift a "YYYY-MM-DD" date by whole days
+export function addDays(date: string, days: number): string {
+  const [y, m, d] = date.split("-").map(Number);
+  const shifted = new Date(Date.UTC(y, m - 1, d + days));
+  return shifted.toISOString().slice(0, 10);
+}
+
+// Day of week (0 = Sunday) for a "YYYY-MM-DD" date
+export function weekdayOf(date: string): number {
+  const [y, m, d] = date.split("-").map(Number);
+  return new Date(Date.UTC(y, m - 1, d)).getUTCDay();
+}
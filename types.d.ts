@@ -4,6 +4,8 @@ interface Env {
   GOOGLE_CLIENT_SECRET: string;
   GOOGLE_PROJECT_NAME?: string; // Pub/Sub topic resource name for Gmail watch
   GOOGLE_TOKEN_AUDIENCE_PREFIX: string;
+  GOOGLE_CALENDAR_WEBHOOK_URL?: string; // public URL of /webhooks/calendar-notify for Calendar watch channels
+  CALENDAR_CATEGORY_COLORS?: string; // JSON map of category name -> event colorId, color name or palette hex
   GOOGLE_MCP_OBJECT: DurableObjectNamespace;
   GMAIL_HISTORY_KV: KVNamespace;
 }
@@ -44,6 +46,13 @@ export type EmailProcessData = {
   historyId: string;
 };
 
+export type CalendarProcessData = {
+  channelId: string;
+  calendarId: string;
+  resourceState: string;
+  messageNumber?: string;
+};
+
 // Webhook response contract for proxied webhook handling
 export type WebhookResponse<T> = {
   /** HTTP status code to proxy back to the origin of the webhook */
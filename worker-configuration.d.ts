@@ -7,6 +7,8 @@ declare namespace Cloudflare {
     GOOGLE_CLIENT_SECRET: string;
     GOOGLE_PROJECT_NAME?: string; // Pub/Sub topic resource name for Gmail watch
     GOOGLE_TOKEN_AUDIENCE_PREFIX: string;
+    GOOGLE_CALENDAR_WEBHOOK_URL?: string; // public URL of /webhooks/calendar-notify for Calendar watch channels
+    CALENDAR_CATEGORY_COLORS?: string; // JSON map of category name -> event colorId, color name or palette hex
     GOOGLE_MCP_OBJECT: DurableObjectNamespace<import("./api/index").GoogleMCP>;
     GMAIL_HISTORY_KV: KVNamespace;
   }